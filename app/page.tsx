@@ -1,20 +1,146 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import dynamic from "next/dynamic";
 import {
   Palette,
   Layers,
   RotateCcw,
+  Undo2,
+  Redo2,
   Search,
   X,
   ChevronDown,
   Eye,
   EyeOff,
+  List,
+  Image as ImageIcon,
+  Printer,
+  Link2,
+  Check,
   Save,
   Download,
   Upload,
+  FileSpreadsheet,
+  Globe,
+  Paintbrush,
+  Compass,
+  ChevronRight,
+  SquareDashed,
+  Lasso,
+  Eraser,
+  Filter,
+  Lock,
+  LockOpen,
+  MapPin,
+  WandSparkles,
+  LucideIcon,
 } from "lucide-react";
+import ChoroplethPanel from "@/components/ChoroplethPanel";
+import CSVImportDialog, { CSVImportPurpose, CSVImportSource } from "@/components/CSVImportDialog";
+import ProjectManager from "@/components/ProjectManager";
+import TerritoryPanel from "@/components/TerritoryPanel";
+import ImageExportDialog, { ImageExportSettings } from "@/components/ImageExportDialog";
+import NameMatchDialog from "@/components/NameMatchDialog";
+import PrintLayoutDialog from "@/components/PrintLayoutDialog";
+import SearchBar from "@/components/SearchBar";
+import type { MapInteractionMode, SimpleMapApi } from "@/components/SimpleMap";
+import {
+  ChoroplethSettings,
+  DEFAULT_CHOROPLETH_SETTINGS,
+  buildClassifiedColors,
+  classify,
+} from "@/lib/classification";
+import { buildAdjacency } from "@/lib/adjacency";
+import { adminNameIncludes } from "@/lib/admin-names";
+import { autoColor } from "@/lib/auto-color";
+import { parseNumber, readFileBytes } from "@/lib/csv";
+import { AdjacentArea, GeoJSONDataManager } from "@/lib/geojson-utils";
+import { AdminHierarchy, parseLatLng } from "@/lib/reverse-geocode";
+import {
+  GISFormat,
+  GIS_FORMATS,
+  buildColoredFeatures,
+  buildGISFile,
+  coloredAreaLayer,
+  isAreaDisplayed,
+} from "@/lib/gis-export";
+import { getAreaCode } from "@/lib/geometry";
+import {
+  HistoryDirection,
+  TrackedState,
+  UndoHistory,
+  applyHistoryEntry,
+  diffTrackedState,
+} from "@/lib/history";
+import {
+  DEFAULT_LEGEND_SETTINGS,
+  LegendSettings,
+  buildLegendEntries,
+  setLegendLabel,
+} from "@/lib/legend";
+import {
+  DEFAULT_PALETTE,
+  KnownAreaCodes,
+  MAP_CONFIG_VERSION,
+  MAP_LEVELS,
+  MapConfig,
+  MapLevel,
+  createEmptyMapConfig,
+  deserializeLegend,
+  formatValidationReport,
+  serializeLegend,
+  validateMapConfig,
+} from "@/lib/map-config";
+import {
+  AreaNameIndex,
+  AreaNameRecord,
+  ColumnDetection,
+  RowMatch,
+  describeDetection,
+} from "@/lib/name-import";
+import {
+  ImageFormat,
+  MapSnapshot,
+  downloadBlob,
+  exportMapImage,
+  renderSnapshotThumbnail,
+} from "@/lib/map-export";
+import {
+  DEFAULT_PROJECT_NAME,
+  MapProject,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  getProject,
+  getStoredActiveProjectId,
+  listProjects,
+  putProject,
+  saveActiveProjectId,
+} from "@/lib/projects";
+import {
+  REGION_LEVELS,
+  REGION_SCHEME_NAMES,
+  RegionItem,
+  RegionLevel,
+  collectRegions,
+  getRegionCodes,
+  isRegionLevel,
+  matchesRegionFilter,
+} from "@/lib/regions";
+import {
+  SHARE_URL_MAX_LENGTH,
+  SHARE_URL_WARN_LENGTH,
+  ShareState,
+  buildShareURL,
+  clearShareHash,
+  decodeShareState,
+  getShareHash,
+} from "@/lib/share-url";
+import { SELECTION_MODES, SelectionMode } from "@/lib/selection";
+import { buildTerritories, territoryLayer } from "@/lib/territory";
+import { GeoJSONFeatureCollection, GeoJSONGeometry, MapView, SearchResult } from "@/lib/types";
+import { XLSXCell, XLSXSheet, XLSX_MIME_TYPE, buildXLSX, isXLSXFile, readXLSX } from "@/lib/xlsx";
 
 // Dynamically import Map component to avoid SSR issues with Leaflet
 const SimpleMap = dynamic(() => import("@/components/SimpleMap"), {
@@ -29,17 +155,33 @@ const SimpleMap = dynamic(() => import("@/components/SimpleMap"), {
   ),
 });
 
-type AdminLevel = "provinces" | "districts" | "subdistricts";
+type AdminLevel = MapLevel;
 
 const ADMIN_LEVELS: { value: AdminLevel; label: string }[] = [
   { value: "provinces", label: "จังหวัด (77)" },
   { value: "districts", label: "อำเภอ (928)" },
   { value: "subdistricts", label: "ตำบล (7,367)" },
+  { value: "region_royin", label: "ภาค ราชบัณฑิตยสภา (6)" },
+  { value: "region_nesdb", label: "ภาค สศช. (7)" },
 ];
 
-type ProvinceItem = { code: string; name: string };
-type DistrictItem = { code: string; name: string; provinceCode: string };
-type SubdistrictItem = { code: string; name: string; districtCode: string; provinceCode: string };
+const INTERACTION_MODES: { value: MapInteractionMode; label: string; title: string; icon: LucideIcon }[] = [
+  { value: "paint", label: "ลงสี", title: "คลิกเพื่อลงสีพื้นที่", icon: Paintbrush },
+  {
+    value: "explore",
+    label: "สำรวจ",
+    title: "คลิกภาคเพื่อดูจังหวัด คลิกจังหวัดเพื่อดูอำเภอ คลิกอำเภอเพื่อดูตำบล",
+    icon: Compass,
+  },
+  { value: "box", label: "กรอบ", title: "ลากกรอบเพื่อเลือกหลายพื้นที่ (กด Shift ค้างไว้เพื่อเลือกเพิ่ม)", icon: SquareDashed },
+  { value: "lasso", label: "บ่วง", title: "วาดรอบพื้นที่ที่ต้องการเลือก (กด Shift ค้างไว้เพื่อเลือกเพิ่ม)", icon: Lasso },
+  { value: "identify", label: "ระบุ", title: "คลิกบนแผนที่หรือพิมพ์พิกัดเพื่อดูว่าอยู่ตำบล อำเภอ จังหวัดใด", icon: MapPin },
+];
+
+// regions: region codes of both classifications
+type ProvinceItem = { code: string; name: string; nameEn: string; regions: string[] };
+type DistrictItem = { code: string; name: string; nameEn: string; provinceCode: string };
+type SubdistrictItem = { code: string; name: string; nameEn: string; districtCode: string; provinceCode: string };
 
 // localStorage functions
 const PALETTE_STORAGE_KEY = "thailand-map-palette";
@@ -47,8 +189,7 @@ const SELECTED_COLOR_STORAGE_KEY = "thailand-map-selected-color";
 const CONFIG_STORAGE_KEY = "thailand-map-config";
 
 const getStoredPalette = (): string[] => {
-  if (typeof window === "undefined")
-    return ["#ff3b30", "#34c759", "#007aff", "#ffcc00", "#8e8e93"];
+  if (typeof window === "undefined") return DEFAULT_PALETTE;
   const stored = localStorage.getItem(PALETTE_STORAGE_KEY);
   if (stored) {
     try {
@@ -57,7 +198,7 @@ const getStoredPalette = (): string[] => {
       console.warn("Error parsing stored palette:", e);
     }
   }
-  return ["#ff3b30", "#34c759", "#007aff", "#ffcc00", "#8e8e93"]; // Default palette
+  return DEFAULT_PALETTE; // Default palette
 };
 
 const getStoredSelectedColor = (defaultPalette: string[]): string => {
@@ -69,39 +210,23 @@ const getStoredSelectedColor = (defaultPalette: string[]): string => {
   return defaultPalette[0];
 };
 
-const savePalette = (palette: string[]) => {
-  if (typeof window !== "undefined") {
-    localStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(palette));
-  }
-};
-
 const saveSelectedColor = (color: string) => {
   if (typeof window !== "undefined") {
     localStorage.setItem(SELECTED_COLOR_STORAGE_KEY, color);
   }
 };
 
-type MapConfig = {
-  currentLevel: AdminLevel;
-  areaColors: [string, string][];
-  selectedProvinces: string[];
-  selectedDistricts: string[];
-  borderColor: string;
-  showAreaNames: boolean;
-};
-
-const saveMapConfig = (config: MapConfig) => {
-  if (typeof window !== "undefined") {
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
-  }
-};
-
+// Single configuration saved by earlier versions; moved into the first project
 const getStoredMapConfig = (): MapConfig | null => {
   if (typeof window === "undefined") return null;
   const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
   if (stored) {
     try {
-      return JSON.parse(stored);
+      const result = validateMapConfig(JSON.parse(stored));
+      if (!result.config) {
+        console.warn("Stored config is invalid:", result.errors);
+      }
+      return result.config;
     } catch (e) {
       console.warn("Error parsing stored config:", e);
     }
@@ -109,26 +234,49 @@ const getStoredMapConfig = (): MapConfig | null => {
   return null;
 };
 
-// Export/import functions
+const clearLegacyStorage = () => {
+  if (typeof window !== "undefined") {
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    localStorage.removeItem(PALETTE_STORAGE_KEY);
+  }
+};
 
-const exportConfig = (
-  currentLevel: AdminLevel,
-  areaColors: Map<string, string>,
-  selectedProvinces: string[],
-  selectedDistricts: string[],
-  borderColor: string,
-  showAreaNames: boolean
-) => {
-  // Create config object exactly like localStorage save
-  const config: MapConfig = {
-    currentLevel,
-    areaColors: Array.from(areaColors.entries()),
-    selectedProvinces,
-    selectedDistricts,
-    borderColor,
-    showAreaNames,
-  };
+// The map a shared link describes, checked like any imported config; null when it does not validate
+const sharedMapConfig = (state: ShareState): MapConfig | null => {
+  const defaults = createEmptyMapConfig();
+  const isKnownLevel = ADMIN_LEVELS.some((level) => level.value === state.currentLevel);
+  const result = validateMapConfig({
+    ...defaults,
+    currentLevel: isKnownLevel ? state.currentLevel : "provinces",
+    areaColors: state.areaColors,
+    selectedProvinces: state.selectedProvinces,
+    selectedDistricts: state.selectedDistricts,
+    selectedRegions: state.selectedRegions,
+    lockedAreas: state.lockedAreas,
+    borderColor: state.borderColor,
+    showAreaNames: state.showAreaNames,
+    areaValues: state.areaValues,
+    choropleth: state.choropleth ?? defaults.choropleth,
+    legend: state.legend ?? defaults.legend,
+  });
+  if (!result.config) console.warn("Shared map settings are invalid:", result.errors);
+  return result.config;
+};
+
+// A project whose stored config is invalid opens as an empty map; say why
+const alertProjectRepair = (project: MapProject) => {
+  if (!project.repair) return;
+  const report = formatValidationReport({ config: null, errors: project.repair.errors, warnings: [] });
+  alert(
+    `การตั้งค่าของโปรเจกต์ "${project.name}" ไม่ถูกต้อง จึงเปิดเป็นแผนที่ว่าง\n` +
+      `ข้อมูลเดิมยังเก็บไว้จนกว่าจะบันทึกทับโปรเจกต์นี้\n\n${report}`
+  );
+};
+
+// Export/import functions
 
+const exportConfig = (config: MapConfig) => {
+  // Same config object that is saved in the project
   const jsonContent = JSON.stringify(config);
   const blob = new Blob([jsonContent], { type: "application/json;charset=utf-8;" });
   const link = document.createElement("a");
@@ -144,14 +292,14 @@ const exportConfig = (
   }
 };
 
-const importFromJSON = (file: File): Promise<MapConfig> => {
+// Parsed but unchecked; run validateMapConfig before use
+const importFromJSON = (file: File): Promise<unknown> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const text = e.target?.result as string;
-        const config = JSON.parse(text) as MapConfig;
-        resolve(config);
+        resolve(JSON.parse(text));
       } catch (error) {
         reject(error);
       }
@@ -161,78 +309,92 @@ const importFromJSON = (file: File): Promise<MapConfig> => {
   });
 };
 
-// CSV import functions
-const parseCSV = (csvText: string): { code: string; color: string }[] => {
-  const lines = csvText.trim().split('\n');
-  const results: { code: string; color: string }[] = [];
-
-  // Skip header row
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Parse CSV line (handle quoted fields)
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        fields.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+// Value import functions (choropleth data); CSV files go through CSVImportDialog
+const parseValueJSON = (jsonText: string): { code: string; value: number }[] => {
+  const data = JSON.parse(jsonText) as unknown;
+  const results: { code: string; value: number }[] = [];
+
+  const push = (code: unknown, raw: unknown) => {
+    const value = parseNumber(raw);
+    if (code !== undefined && code !== null && String(code).trim() && Number.isFinite(value)) {
+      results.push({ code: String(code).trim(), value });
     }
-    fields.push(current); // Add last field
+  };
 
-    if (fields.length >= 3) {
-      const code = fields[0].trim();
-      const color = fields[fields.length - 1].trim(); // Color is always the last column
-      if (code && color) {
-        results.push({ code, color });
+  if (Array.isArray(data)) {
+    // [{ code, value }] or [[code, value]]
+    data.forEach((item) => {
+      if (Array.isArray(item)) {
+        push(item[0], item[1]);
+      } else if (item && typeof item === "object") {
+        const record = item as Record<string, unknown>;
+        push(record.code, record.value);
       }
-    }
+    });
+  } else if (data && typeof data === "object") {
+    // { [code]: value }
+    Object.entries(data as Record<string, unknown>).forEach(([code, value]) =>
+      push(code, value)
+    );
   }
 
   return results;
 };
 
-const importFromCSV = (file: File): Promise<Map<string, string>> => {
+const importValuesFromJSON = (file: File): Promise<Map<string, number>> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const text = e.target?.result as string;
-        const data = parseCSV(text);
-        const colorMap = new Map<string, string>();
-
-        data.forEach(({ code, color }) => {
-          if (color && color !== '') {
-            colorMap.set(code, color);
-          }
-        });
-
-        resolve(colorMap);
+        resolve(new Map(parseValueJSON(text).map(({ code, value }) => [code, value])));
       } catch (error) {
         reject(error);
       }
     };
-    reader.onerror = () => reject(new Error("Failed to read CSV file"));
+    reader.onerror = () => reject(new Error("Failed to read value file"));
     reader.readAsText(file, 'utf-8');
   });
 };
 
+// Codes of the provinces in the selected regions, or null when no region is selected
+const provincesInRegions = (
+  availableProvinces: ProvinceItem[],
+  selectedRegions: string[]
+): Set<string> | null =>
+  selectedRegions.length === 0
+    ? null
+    : new Set(
+      availableProvinces
+        .filter((province) => matchesRegionFilter(province.regions, selectedRegions))
+        .map((province) => province.code)
+    );
+
 // Export functions for specific administrative levels
+const exportRegions = (
+  level: RegionLevel,
+  areaColors: Map<string, string>,
+  availableRegions: RegionItem[]
+) => {
+  const csvHeader = "รหัสภาค,ชื่อภาค,ชื่อภาษาอังกฤษ,สี\n";
+  const csvRows = availableRegions
+    .filter((region) => region.level === level)
+    .map((region) => `${region.code},"${region.name}","${region.nameEn}",${areaColors.get(region.code) || ""}`)
+    .join("\n");
+  const blob = new Blob([csvHeader + csvRows], { type: "text/csv;charset=utf-8;" });
+  downloadBlob(blob, `ภาค-${REGION_SCHEME_NAMES[level]}-${new Date().toISOString().split('T')[0]}.csv`);
+};
+
 const exportProvinces = (
   areaColors: Map<string, string>,
-  availableProvinces: ProvinceItem[]
+  availableProvinces: ProvinceItem[],
+  selectedRegions: string[]
 ) => {
-  // Include all provinces, with empty color if no color is set, sorted by name
+  const regionProvinces = provincesInRegions(availableProvinces, selectedRegions);
+
+  // Include all provinces in the selected regions, with empty color if no color is set, sorted by name
   const allProvinces = availableProvinces
+    .filter((province) => !regionProvinces || regionProvinces.has(province.code))
     .map((province) => ({
       code: province.code,
       name: province.name,
@@ -265,12 +427,15 @@ const exportDistricts = (
   areaColors: Map<string, string>,
   availableDistricts: DistrictItem[],
   availableProvinces: ProvinceItem[],
-  selectedProvinces: string[]
+  selectedProvinces: string[],
+  selectedRegions: string[]
 ) => {
-  // Filter districts based on selected provinces, or include all if no filter
-  const filteredDistricts = selectedProvinces.length > 0
-    ? availableDistricts.filter(district => selectedProvinces.includes(district.provinceCode))
-    : availableDistricts;
+  // Filter districts based on selected provinces and regions, or include all if no filter
+  const regionProvinces = provincesInRegions(availableProvinces, selectedRegions);
+  const filteredDistricts = availableDistricts.filter((district) =>
+    (selectedProvinces.length === 0 || selectedProvinces.includes(district.provinceCode)) &&
+    (!regionProvinces || regionProvinces.has(district.provinceCode))
+  );
 
   // Include all filtered districts, with empty color if no color is set, sorted by province then district name
   const allDistricts = filteredDistricts
@@ -316,12 +481,15 @@ const exportSubdistricts = (
   availableSubdistricts: SubdistrictItem[],
   availableDistricts: DistrictItem[],
   availableProvinces: ProvinceItem[],
-  selectedDistricts: string[]
+  selectedDistricts: string[],
+  selectedRegions: string[]
 ) => {
-  // Filter subdistricts based on selected districts, or include all if no filter
-  const filteredSubdistricts = selectedDistricts.length > 0
-    ? availableSubdistricts.filter(subdistrict => selectedDistricts.includes(subdistrict.districtCode))
-    : availableSubdistricts;
+  // Filter subdistricts based on selected districts and regions, or include all if no filter
+  const regionProvinces = provincesInRegions(availableProvinces, selectedRegions);
+  const filteredSubdistricts = availableSubdistricts.filter((subdistrict) =>
+    (selectedDistricts.length === 0 || selectedDistricts.includes(subdistrict.districtCode)) &&
+    (!regionProvinces || regionProvinces.has(subdistrict.provinceCode))
+  );
 
   // Include all filtered subdistricts, with empty color if no color is set, sorted by province, district, then subdistrict name
   const allSubdistricts = filteredSubdistricts
@@ -370,37 +538,132 @@ const exportSubdistricts = (
   }
 };
 
+// One sheet per level with the parent hierarchy; the color cell is filled with its color
+const exportWorkbook = (
+  areaColors: Map<string, string>,
+  areaValues: Map<string, number>,
+  availableProvinces: ProvinceItem[],
+  availableDistricts: DistrictItem[],
+  availableSubdistricts: SubdistrictItem[],
+  availableRegions: RegionItem[],
+  selectedProvinces: string[],
+  selectedDistricts: string[],
+  selectedRegions: string[]
+) => {
+  const provinceNames = new Map(availableProvinces.map((province) => [province.code, province.name]));
+  const districtNames = new Map(availableDistricts.map((district) => [district.code, district.name]));
+  const hasValues = areaValues.size > 0;
+
+  const header = (labels: string[]): XLSXCell[] =>
+    [...labels, "สี", ...(hasValues ? ["ค่าข้อมูล"] : [])].map((label) => ({ value: label, bold: true }));
+  const payload = (code: string): XLSXCell[] => {
+    const color = areaColors.get(code) || "";
+    const cells: XLSXCell[] = [{ value: color, fill: color || undefined }];
+    if (hasValues) cells.push({ value: areaValues.get(code) ?? null });
+    return cells;
+  };
+  const byName = (a: string, b: string) => a.localeCompare(b, 'th');
+
+  const sheets: XLSXSheet[] = [];
+
+  REGION_LEVELS.forEach((level) => {
+    const regions = availableRegions.filter((region) => region.level === level);
+    if (regions.length === 0) return;
+    sheets.push({
+      name: `ภาค ${REGION_SCHEME_NAMES[level]}`,
+      freezeHeader: true,
+      columnWidths: [18, 24, 16, 10, 12],
+      rows: [
+        header(["รหัสภาค", "ชื่อภาค", "ชื่อภาษาอังกฤษ"]),
+        ...regions.map((region) => [region.code, region.name, region.nameEn, ...payload(region.code)]),
+      ],
+    });
+  });
+
+  // Same filters as the CSV exports
+  const regionProvinces = provincesInRegions(availableProvinces, selectedRegions);
+  const inRegions = (provinceCode: string) => !regionProvinces || regionProvinces.has(provinceCode);
+
+  const provinces = availableProvinces.filter((province) => inRegions(province.code));
+  if (provinces.length > 0) {
+    sheets.push({
+      name: "จังหวัด",
+      freezeHeader: true,
+      columnWidths: [10, 24, 10, 12],
+      rows: [
+        header(["รหัสจังหวัด", "ชื่อจังหวัด"]),
+        ...provinces
+          .sort((a, b) => byName(a.name, b.name))
+          .map((province) => [province.code, province.name, ...payload(province.code)]),
+      ],
+    });
+  }
+
+  const districts = availableDistricts.filter((district) =>
+    (selectedProvinces.length === 0 || selectedProvinces.includes(district.provinceCode)) && inRegions(district.provinceCode)
+  );
+  if (districts.length > 0) {
+    sheets.push({
+      name: "อำเภอ",
+      freezeHeader: true,
+      columnWidths: [10, 24, 10, 24, 10, 12],
+      rows: [
+        header(["รหัสอำเภอ", "ชื่ออำเภอ", "รหัสจังหวัด", "ชื่อจังหวัด"]),
+        ...districts
+          .map((district) => ({ ...district, provinceName: provinceNames.get(district.provinceCode) || "" }))
+          .sort((a, b) => byName(a.provinceName, b.provinceName) || byName(a.name, b.name))
+          .map((district) => [
+            district.code,
+            district.name,
+            district.provinceCode,
+            district.provinceName,
+            ...payload(district.code),
+          ]),
+      ],
+    });
+  }
+
+  const subdistricts = availableSubdistricts.filter((subdistrict) =>
+    (selectedDistricts.length === 0 || selectedDistricts.includes(subdistrict.districtCode)) &&
+    inRegions(subdistrict.provinceCode)
+  );
+  if (subdistricts.length > 0) {
+    sheets.push({
+      name: "ตำบล",
+      freezeHeader: true,
+      columnWidths: [10, 24, 10, 24, 10, 24, 10, 12],
+      rows: [
+        header(["รหัสตำบล", "ชื่อตำบล", "รหัสอำเภอ", "ชื่ออำเภอ", "รหัสจังหวัด", "ชื่อจังหวัด"]),
+        ...subdistricts
+          .map((subdistrict) => ({
+            ...subdistrict,
+            districtName: districtNames.get(subdistrict.districtCode) || "",
+            provinceName: provinceNames.get(subdistrict.provinceCode) || "",
+          }))
+          .sort((a, b) =>
+            byName(a.provinceName, b.provinceName) || byName(a.districtName, b.districtName) || byName(a.name, b.name)
+          )
+          .map((subdistrict) => [
+            subdistrict.code,
+            subdistrict.name,
+            subdistrict.districtCode,
+            subdistrict.districtName,
+            subdistrict.provinceCode,
+            subdistrict.provinceName,
+            ...payload(subdistrict.code),
+          ]),
+      ],
+    });
+  }
+
+  const blob = new Blob([buildXLSX(sheets) as BlobPart], { type: XLSX_MIME_TYPE });
+  downloadBlob(blob, `thailand-map-${new Date().toISOString().split('T')[0]}.xlsx`);
+};
+
 export default function Home() {
   // Initialize with default values to avoid hydration mismatch
-  const defaultPalette = [
-    "#ff3b30",
-    "#34c759",
-    "#007aff",
-    "#ffcc00",
-    "#8e8e93",
-  ];
-  const [palette, setPalette] = useState<string[]>(defaultPalette);
-  const [selectedColor, setSelectedColor] = useState(defaultPalette[0]);
-
-  // Load from localStorage after hydration to avoid SSR mismatch
-  useEffect(() => {
-    const storedPalette = getStoredPalette();
-    const storedSelectedColor = getStoredSelectedColor(storedPalette);
-    const storedConfig = getStoredMapConfig();
-
-    setPalette(storedPalette);
-    setSelectedColor(storedSelectedColor);
-
-    // Load saved configuration if available
-    if (storedConfig) {
-      setCurrentLevel(storedConfig.currentLevel);
-      setAreaColors(new Map(storedConfig.areaColors));
-      setSelectedProvinces(storedConfig.selectedProvinces);
-      setSelectedDistricts(storedConfig.selectedDistricts);
-      setBorderColor(storedConfig.borderColor);
-      setShowAreaNames(storedConfig.showAreaNames);
-    }
-  }, []);
+  const [palette, setPalette] = useState<string[]>(DEFAULT_PALETTE);
+  const [selectedColor, setSelectedColor] = useState(DEFAULT_PALETTE[0]);
 
   const [currentLevel, setCurrentLevel] = useState<AdminLevel>("provinces");
   const [isLoading, setIsLoading] = useState(true);
@@ -420,12 +683,68 @@ export default function Home() {
   const [districtSearchTerm, setDistrictSearchTerm] = useState("");
   const [isDistrictDropdownOpen, setIsDistrictDropdownOpen] = useState(false);
 
+  // Region filter for the province, district and subdistrict levels
+  const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [availableRegions, setAvailableRegions] = useState<RegionItem[]>([]);
+  const [isRegionDropdownOpen, setIsRegionDropdownOpen] = useState(false);
+
   // Export dropdown state
   const [isExportDropdownOpen, setIsExportDropdownOpen] = useState(false);
 
+  // Image export dialog (null when closed)
+  const [imageExportFormat, setImageExportFormat] = useState<ImageFormat | null>(null);
+  const mapApiRef = useRef<SimpleMapApi | null>(null);
+
+  // Viewport restored from a shared link
+  const [initialView, setInitialView] = useState<MapView | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  // CSV or Excel file waiting for the user to confirm its format and column mapping
+  const [csvImport, setCSVImport] = useState<{
+    fileName: string;
+    source: CSVImportSource;
+    purpose: CSVImportPurpose;
+  } | null>(null);
+
+  // CSV rows that could not be matched by code or name, waiting for the user
+  const [nameMatch, setNameMatch] = useState<{ matches: RowMatch[]; detectionSummary: string[] } | null>(null);
+
+  // Print layout dialog works on the view captured when it was opened
+  const [printSnapshot, setPrintSnapshot] = useState<MapSnapshot | null>(null);
+
   // Import dropdown state
   const [isImportDropdownOpen, setIsImportDropdownOpen] = useState(false);
 
+  // Paint areas on click, or drill down from provinces to districts to subdistricts
+  const [interactionMode, setInteractionMode] = useState<MapInteractionMode>("paint");
+
+  // Areas picked with the box or lasso tool, waiting for an action
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("intersect");
+  const [areaSelection, setAreaSelection] = useState<string[]>([]);
+
+  // Identify mode: the areas containing a clicked or typed point
+  const [identified, setIdentified] = useState<{
+    point: [number, number];
+    hierarchy: AdminHierarchy | null;
+  } | null>(null);
+  const [coordinateInput, setCoordinateInput] = useState("");
+  const [coordinateError, setCoordinateError] = useState("");
+
+  // Areas whose color auto-coloring keeps
+  const [lockedAreas, setLockedAreas] = useState<Set<string>>(new Set());
+  const [isAutoColoring, setIsAutoColoring] = useState(false);
+
+  // Boundary data for area queries (neighbors) and search, loaded per level on demand
+  const [dataManager] = useState(() => new GeoJSONDataManager());
+  const [isSearchReady, setIsSearchReady] = useState(false);
+  const searchLoadStartedRef = useRef(false);
+  const [paintOnSearchEnter, setPaintOnSearchEnter] = useState(false);
+  const [focusedArea, setFocusedArea] = useState<{ geometry: GeoJSONGeometry } | null>(null);
+  const [neighborHighlight, setNeighborHighlight] = useState<{
+    code: string;
+    neighbors: AdjacentArea[];
+  } | null>(null);
+
   // Subdistrict data for comprehensive export
   const [availableSubdistricts, setAvailableSubdistricts] = useState<SubdistrictItem[]>(
     []
@@ -441,26 +760,619 @@ export default function Home() {
   const [showAreaNames, setShowAreaNames] = useState(true);
   const [isSaved, setIsSaved] = useState(true);
 
+  // ข้อมูลสำหรับลงสีตามค่า (choropleth) แยกจากสีที่ระบายเอง
+  const [areaValues, setAreaValues] = useState<Map<string, number>>(new Map());
+  const [choropleth, setChoropleth] = useState<ChoroplethSettings>(DEFAULT_CHOROPLETH_SETTINGS);
+
+  const classification = useMemo(
+    () => classify(Array.from(areaValues.values()), choropleth),
+    [areaValues, choropleth]
+  );
+  const classifiedColors = useMemo(
+    () => buildClassifiedColors(areaValues, classification),
+    [areaValues, classification]
+  );
+
+  // คำอธิบายสัญลักษณ์ (legend)
+  const [legend, setLegend] = useState<LegendSettings>(DEFAULT_LEGEND_SETTINGS);
+
+  const legendEntries = useMemo(
+    () =>
+      buildLegendEntries(
+        areaColors,
+        palette,
+        legend.labels,
+        areaValues.size > 0 ? { result: classification, colors: classifiedColors } : undefined
+      ),
+    [areaColors, palette, legend.labels, areaValues, classification, classifiedColors]
+  );
+
+  // Legend text per color for GIS exports; classes without a typed label fall back to their range
+  const legendLabelsByColor = useMemo(
+    () => new Map(legendEntries.map((entry) => [entry.color.trim().toLowerCase(), entry.label || entry.range || ""])),
+    [legendEntries]
+  );
+
+  // โหมดเขต: รวมพื้นที่ที่ลงสีเดียวกันเป็นเขต
+  const [isTerritoryMode, setIsTerritoryMode] = useState(false);
+  const [territoryData, setTerritoryData] = useState<{
+    level: AdminLevel;
+    collection: GeoJSONFeatureCollection;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!isTerritoryMode || territoryData?.level === currentLevel) return;
+    let cancelled = false;
+    const level = currentLevel;
+    dataManager
+      .loadLevel(level)
+      .then((collection) => {
+        if (!cancelled) setTerritoryData({ level, collection });
+      })
+      .catch((error) => console.error("Error loading territory data:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isTerritoryMode, currentLevel, territoryData, dataManager]);
+
+  const territories = useMemo(() => {
+    if (!isTerritoryMode || territoryData?.level !== currentLevel) return [];
+    return buildTerritories(
+      buildColoredFeatures(territoryData.collection, {
+        level: currentLevel,
+        areaColors,
+        legendLabels: legendLabelsByColor,
+        selectedProvinces,
+        selectedDistricts,
+        selectedRegions,
+      })
+    );
+  }, [
+    isTerritoryMode,
+    territoryData,
+    currentLevel,
+    areaColors,
+    legendLabelsByColor,
+    selectedProvinces,
+    selectedDistricts,
+    selectedRegions,
+  ]);
+
+  // ประวัติการแก้ไข (undo/redo) ของสี ชุดสี และตัวกรอง
+  const [history] = useState(() => new UndoHistory());
+  const [, setHistoryVersion] = useState(0);
+  const [isHistoryReady, setIsHistoryReady] = useState(false);
+  const trackedStateRef = useRef<TrackedState | null>(null);
+  const skipHistoryRecordRef = useRef(false);
+
+  // Record every change of the tracked state as a diff against the previous render
+  useEffect(() => {
+    const current: TrackedState = { areaColors, palette, selectedProvinces, selectedDistricts, selectedRegions };
+    const previous = trackedStateRef.current;
+    trackedStateRef.current = isHistoryReady ? current : null;
+
+    if (!previous || skipHistoryRecordRef.current) {
+      skipHistoryRecordRef.current = false;
+      return;
+    }
+
+    const entry = diffTrackedState(previous, current);
+    if (entry) {
+      history.push(entry);
+      setHistoryVersion((version) => version + 1);
+    }
+  }, [areaColors, palette, selectedProvinces, selectedDistricts, selectedRegions, isHistoryReady, history]);
+
+  // Forget all steps, e.g. when another project is opened; the state change that follows is not recorded
+  const resetHistory = () => {
+    history.clear();
+    skipHistoryRecordRef.current = true;
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const applyHistory = useCallback((direction: HistoryDirection) => {
+    const current = trackedStateRef.current;
+    if (!current) return;
+    const entry = direction === "undo" ? history.undo() : history.redo();
+    if (!entry) return;
+
+    const next = applyHistoryEntry(current, entry, direction);
+    skipHistoryRecordRef.current = true;
+    setAreaColors(next.areaColors);
+    setSelectedProvinces(next.selectedProvinces);
+    setSelectedDistricts(next.selectedDistricts);
+    setSelectedRegions(next.selectedRegions);
+
+    if (next.palette !== current.palette) {
+      setPalette(next.palette);
+      // Keep the selected swatch position, like updatePaletteColor does
+      setSelectedColor((prev) => {
+        const index = current.palette.indexOf(prev);
+        const color = index >= 0 && next.palette[index] ? next.palette[index] : prev;
+        saveSelectedColor(color);
+        return color;
+      });
+    }
+
+    setIsSaved(false);
+    setHistoryVersion((version) => version + 1);
+  }, [history]);
+
+  // Ctrl+Z = undo, Ctrl+Shift+Z / Ctrl+Y = redo (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      // Text fields keep their own undo
+      const target = event.target as HTMLElement;
+      const isTextInput =
+        target.isContentEditable ||
+        target.tagName === "TEXTAREA" ||
+        (target.tagName === "INPUT" &&
+          !["checkbox", "radio", "color", "file", "button"].includes((target as HTMLInputElement).type));
+      if (isTextInput) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        applyHistory(event.shiftKey ? "redo" : "undo");
+      } else if (key === "y") {
+        event.preventDefault();
+        applyHistory("redo");
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [applyHistory]);
+
+  const undoLabel = history.peekUndoLabel();
+  const redoLabel = history.peekRedoLabel();
+
+  // โปรเจกต์ที่บันทึกไว้ (null = ยังไม่ได้บันทึกเป็นโปรเจกต์)
+  const [projects, setProjects] = useState<MapProject[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+
+  const applyMapConfig = useCallback((config: MapConfig) => {
+    setCurrentLevel(config.currentLevel);
+    setAreaColors(new Map(config.areaColors));
+    setSelectedProvinces(config.selectedProvinces);
+    setSelectedDistricts(config.selectedDistricts);
+    setSelectedRegions(config.selectedRegions);
+    setLockedAreas(new Set(config.lockedAreas));
+    setBorderColor(config.borderColor);
+    setShowAreaNames(config.showAreaNames);
+    setAreaValues(new Map(config.areaValues));
+    setChoropleth(config.choropleth);
+    setLegend(deserializeLegend(config.legend));
+  }, []);
+
+  const applyPalette = useCallback((nextPalette: string[]) => {
+    setPalette(nextPalette);
+    setSelectedColor((prev) => (nextPalette.includes(prev) ? prev : nextPalette[0]));
+  }, []);
+
+  const buildMapConfig = (): MapConfig => ({
+    version: MAP_CONFIG_VERSION,
+    currentLevel,
+    areaColors: Array.from(areaColors.entries()),
+    selectedProvinces,
+    selectedDistricts,
+    selectedRegions,
+    lockedAreas: Array.from(lockedAreas),
+    borderColor,
+    showAreaNames,
+    areaValues: Array.from(areaValues.entries()),
+    choropleth,
+    legend: serializeLegend(legend),
+  });
+
+  // Load projects after hydration to avoid SSR mismatch
+  useEffect(() => {
+    const restore = async () => {
+      let projectList: MapProject[] = [];
+      let project: MapProject | null = null;
+      // Used when projects cannot be stored, so the earlier configuration is not lost
+      let legacyConfig: MapConfig | null = null;
+
+      try {
+        projectList = await listProjects();
+        if (projectList.length === 0) {
+          // First run: move the configuration saved by earlier versions into a project
+          const migrated = createProject(
+            DEFAULT_PROJECT_NAME,
+            getStoredMapConfig() || createEmptyMapConfig(),
+            getStoredPalette()
+          );
+          await putProject(migrated);
+          // The old keys go only once the project reads back
+          if (await getProject(migrated.id)) clearLegacyStorage();
+          project = migrated;
+          projectList = [migrated];
+        } else {
+          const storedId = getStoredActiveProjectId();
+          project = projectList.find((item) => item.id === storedId) || projectList[0];
+        }
+      } catch (e) {
+        console.warn("Error loading projects:", e);
+        if (!project) legacyConfig = getStoredMapConfig();
+      }
+
+      setProjects(projectList);
+
+      // A shared link opens as a new, unsaved map and never overwrites a project
+      const shareHash = getShareHash();
+      let sharedState: ShareState | null = null;
+      let sharedConfig: MapConfig | null = null;
+      if (shareHash) {
+        try {
+          sharedState = decodeShareState(shareHash);
+          sharedConfig = sharedMapConfig(sharedState);
+          if (!sharedConfig) throw new Error("Invalid shared map settings");
+        } catch (e) {
+          console.warn("Error decoding shared link:", e);
+          alert("ลิงก์ที่แชร์ไม่ถูกต้องหรือไม่สมบูรณ์ จะใช้การตั้งค่าที่บันทึกไว้แทน");
+        }
+        clearShareHash();
+      }
+
+      if (sharedState && sharedConfig) {
+        applyMapConfig(sharedConfig);
+        applyPalette(sharedState.palette || project?.palette || DEFAULT_PALETTE);
+        setInitialView(sharedState.view || null);
+        setIsSaved(false);
+      } else if (project) {
+        applyMapConfig(project.config);
+        setPalette(project.palette);
+        setSelectedColor(getStoredSelectedColor(project.palette));
+        setActiveProjectId(project.id);
+        saveActiveProjectId(project.id);
+        alertProjectRepair(project);
+      } else if (legacyConfig) {
+        const legacyPalette = getStoredPalette();
+        applyMapConfig(legacyConfig);
+        setPalette(legacyPalette);
+        setSelectedColor(getStoredSelectedColor(legacyPalette));
+      }
+
+      // Start recording from the restored state, not from the defaults
+      setIsHistoryReady(true);
+    };
+
+    restore();
+  }, [applyMapConfig, applyPalette]);
+
+  const updateLegend = (changes: Partial<LegendSettings>) => {
+    setLegend((prev) => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
   const handleClearColors = () => {
     setAreaColors(new Map());
     setIsSaved(false);
   };
 
-  const handleSaveConfig = () => {
-    const config: MapConfig = {
+  const handleSaveConfig = async () => {
+    const config = buildMapConfig();
+    const existing = projects.find((project) => project.id === activeProjectId);
+
+    let name = existing?.name;
+    if (!name) {
+      const input = window.prompt("ตั้งชื่อโปรเจกต์", DEFAULT_PROJECT_NAME);
+      if (input === null) return;
+      name = input.trim() || DEFAULT_PROJECT_NAME;
+    }
+
+    let thumbnail = existing?.thumbnail;
+    const snapshot = mapApiRef.current?.getSnapshot();
+    if (snapshot) {
+      try {
+        thumbnail = await renderSnapshotThumbnail(snapshot);
+      } catch (error) {
+        console.warn("Thumbnail error:", error);
+      }
+    }
+
+    const project: MapProject = existing
+      ? { ...existing, config, palette, thumbnail, updatedAt: Date.now(), repair: undefined }
+      : createProject(name, config, palette, thumbnail);
+
+    try {
+      await putProject(project);
+    } catch (error) {
+      console.error("Save error:", error);
+      alert("ไม่สามารถบันทึกโปรเจกต์ได้ เบราว์เซอร์อาจไม่อนุญาตให้ใช้พื้นที่จัดเก็บ");
+      return;
+    }
+
+    setProjects((prev) => [project, ...prev.filter((item) => item.id !== project.id)]);
+    setActiveProjectId(project.id);
+    saveActiveProjectId(project.id);
+    setIsSaved(true);
+  };
+
+  const confirmDiscardChanges = () =>
+    isSaved || window.confirm("มีการเปลี่ยนแปลงที่ยังไม่ได้บันทึก ต้องการละทิ้งการเปลี่ยนแปลงหรือไม่?");
+
+  // Replace the whole map state; the history of the previous project does not apply
+  const openProject = (project: MapProject | null) => {
+    applyMapConfig(project?.config || createEmptyMapConfig());
+    applyPalette(project?.palette || DEFAULT_PALETTE);
+    setActiveProjectId(project?.id || null);
+    if (project) saveActiveProjectId(project.id);
+    setInitialView(null);
+    resetHistory();
+    setIsSaved(Boolean(project));
+    if (project) alertProjectRepair(project);
+  };
+
+  const handleCreateProject = async () => {
+    if (!confirmDiscardChanges()) return;
+    const input = window.prompt("ชื่อโปรเจกต์ใหม่", DEFAULT_PROJECT_NAME);
+    if (input === null) return;
+
+    const project = createProject(input.trim() || DEFAULT_PROJECT_NAME, createEmptyMapConfig(), DEFAULT_PALETTE);
+    try {
+      await putProject(project);
+    } catch (error) {
+      console.error("Create project error:", error);
+      alert("ไม่สามารถสร้างโปรเจกต์ได้");
+      return;
+    }
+    setProjects((prev) => [project, ...prev]);
+    openProject(project);
+  };
+
+  const handleSwitchProject = (id: string) => {
+    const project = projects.find((item) => item.id === id);
+    if (!project || !confirmDiscardChanges()) return;
+    openProject(project);
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const project = projects.find((item) => item.id === id);
+    if (!project) return;
+    const input = window.prompt("เปลี่ยนชื่อโปรเจกต์", project.name);
+    if (input === null || !input.trim()) return;
+
+    const renamed = { ...project, name: input.trim() };
+    try {
+      await putProject(renamed);
+      setProjects((prev) => prev.map((item) => (item.id === id ? renamed : item)));
+    } catch (error) {
+      console.error("Rename project error:", error);
+      alert("ไม่สามารถเปลี่ยนชื่อโปรเจกต์ได้");
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    const project = projects.find((item) => item.id === id);
+    if (!project) return;
+
+    // The copy is made from the saved version of the project
+    const copy = duplicateProject(project, `${project.name} (สำเนา)`);
+    try {
+      await putProject(copy);
+      setProjects((prev) => [copy, ...prev]);
+    } catch (error) {
+      console.error("Duplicate project error:", error);
+      alert("ไม่สามารถทำสำเนาโปรเจกต์ได้");
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find((item) => item.id === id);
+    if (!project || !window.confirm(`ลบโปรเจกต์ "${project.name}" หรือไม่? การลบไม่สามารถย้อนกลับได้`)) return;
+
+    try {
+      await deleteProject(id);
+    } catch (error) {
+      console.error("Delete project error:", error);
+      alert("ไม่สามารถลบโปรเจกต์ได้");
+      return;
+    }
+
+    const remaining = projects.filter((item) => item.id !== id);
+    setProjects(remaining);
+    if (id === activeProjectId) {
+      openProject(remaining[0] || null);
+    }
+  };
+
+  const handleExport = () => {
+    exportConfig(buildMapConfig());
+  };
+
+  const handleImageExport = async (settings: ImageExportSettings) => {
+    const snapshot = mapApiRef.current?.getSnapshot();
+    if (!snapshot) throw new Error("Map is not ready");
+
+    await exportMapImage(
+      snapshot,
+      settings.format,
+      {
+        title: settings.includeTitle ? settings.title.trim() : undefined,
+        legend: settings.includeLegend
+          ? { title: legend.title, entries: legendEntries, position: legend.position }
+          : undefined,
+      },
+      settings.scale
+    );
+  };
+
+  // Painted features of the current level as GIS files, generated from the level's GeoJSON
+  const handleGISExport = async (format: GISFormat) => {
+    try {
+      const collection = await dataManager.loadLevel(currentLevel);
+
+      const features = buildColoredFeatures(collection, {
+        level: currentLevel,
+        areaColors,
+        classifiedColors: areaValues.size > 0 ? classifiedColors : undefined,
+        areaValues,
+        legendLabels: legendLabelsByColor,
+        selectedProvinces,
+        selectedDistricts,
+        selectedRegions,
+      });
+      if (features.length === 0) {
+        alert("ยังไม่มีพื้นที่ที่ลงสีในระดับนี้");
+        return;
+      }
+
+      const baseName = `thailand-map-${currentLevel}-${new Date().toISOString().split('T')[0]}`;
+      const extension = GIS_FORMATS.find((item) => item.value === format)?.extension || format;
+      downloadBlob(buildGISFile(format, coloredAreaLayer(features), baseName, borderColor), `${baseName}.${extension}`);
+    } catch (error) {
+      console.error("GIS export error:", error);
+      alert("เกิดข้อผิดพลาดในการส่งออกไฟล์แผนที่");
+    }
+  };
+
+  // Explore mode: open the children of the clicked area
+  const handleAreaExplore = useCallback(
+    (code: string, level: AdminLevel) => {
+      if (isRegionLevel(level)) {
+        setSelectedRegions([code]);
+        setSelectedProvinces([]);
+        setSelectedDistricts([]);
+        setCurrentLevel("provinces");
+      } else if (level === "provinces") {
+        setSelectedProvinces([code]);
+        setSelectedDistricts([]);
+        setCurrentLevel("districts");
+      } else if (level === "districts") {
+        const district = availableDistricts.find((item) => item.code === code);
+        if (district) setSelectedProvinces([district.provinceCode]);
+        setSelectedDistricts([code]);
+        setCurrentLevel("subdistricts");
+      } else {
+        return;
+      }
+      setIsSaved(false);
+    },
+    [availableDistricts]
+  );
+
+  // Breadcrumb for explore mode: ประเทศไทย › ภาค › จังหวัด › อำเภอ
+  const exploreTrail = useMemo(() => {
+    const trail: { label: string; onSelect: () => void }[] = [
+      {
+        label: "ประเทศไทย",
+        onSelect: () => {
+          setSelectedRegions([]);
+          setSelectedProvinces([]);
+          setSelectedDistricts([]);
+          setCurrentLevel("provinces");
+          setIsSaved(false);
+        },
+      },
+    ];
+    if (isRegionLevel(currentLevel)) return trail;
+
+    if (selectedRegions.length === 1) {
+      const region = availableRegions.find((item) => item.code === selectedRegions[0]);
+      trail.push({
+        label: region?.name || selectedRegions[0],
+        onSelect: () => {
+          setSelectedProvinces([]);
+          setSelectedDistricts([]);
+          setCurrentLevel("provinces");
+          setIsSaved(false);
+        },
+      });
+    }
+    if (currentLevel === "provinces" || selectedProvinces.length !== 1) return trail;
+
+    const province = availableProvinces.find((item) => item.code === selectedProvinces[0]);
+    trail.push({
+      label: province?.name || selectedProvinces[0],
+      onSelect: () => {
+        setSelectedDistricts([]);
+        setCurrentLevel("districts");
+        setIsSaved(false);
+      },
+    });
+    if (currentLevel !== "subdistricts" || selectedDistricts.length !== 1) return trail;
+
+    const district = availableDistricts.find((item) => item.code === selectedDistricts[0]);
+    trail.push({
+      label: district?.name || selectedDistricts[0],
+      onSelect: () => undefined,
+    });
+    return trail;
+  }, [
+    currentLevel,
+    selectedRegions,
+    selectedProvinces,
+    selectedDistricts,
+    availableRegions,
+    availableProvinces,
+    availableDistricts,
+  ]);
+
+  const handleTerritoryExport = (format: GISFormat) => {
+    const baseName = `thailand-map-territories-${currentLevel}-${new Date().toISOString().split('T')[0]}`;
+    const extension = GIS_FORMATS.find((item) => item.value === format)?.extension || format;
+    downloadBlob(buildGISFile(format, territoryLayer(territories), baseName, borderColor), `${baseName}.${extension}`);
+  };
+
+  const handleCopyShareLink = async () => {
+    const shareState: ShareState = {
       currentLevel,
       areaColors: Array.from(areaColors.entries()),
       selectedProvinces,
       selectedDistricts,
+      selectedRegions,
+      lockedAreas: Array.from(lockedAreas),
       borderColor,
       showAreaNames,
+      areaValues: Array.from(areaValues.entries()),
+      choropleth,
+      legend: serializeLegend(legend),
+      palette,
+      view: mapApiRef.current?.getView() || undefined,
     };
-    saveMapConfig(config);
-    setIsSaved(true);
-  };
+    let url = buildShareURL(shareState);
 
-  const handleExport = () => {
-    exportConfig(currentLevel, areaColors, selectedProvinces, selectedDistricts, borderColor, showAreaNames);
+    // A value table is the bulk of a long link; without it the rest may still fit
+    const omitted: string[] = [];
+    if (url.length > SHARE_URL_MAX_LENGTH && shareState.areaValues.length > 0) {
+      url = buildShareURL({ ...shareState, areaValues: [] });
+      omitted.push(`ค่าข้อมูล ${shareState.areaValues.length.toLocaleString()} พื้นที่ของแผนที่ตามค่าข้อมูล`);
+    }
+
+    if (url.length > SHARE_URL_MAX_LENGTH) {
+      alert(
+        `ลิงก์ยาวเกินไป (${url.length.toLocaleString()} ตัวอักษร) เบราว์เซอร์อาจเปิดไม่ได้\n` +
+        "กรุณาใช้ \"ส่งออกการตั้งค่า\" เพื่อแชร์เป็นไฟล์แทน"
+      );
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      // Clipboard API unavailable (e.g. insecure context): let the user copy manually
+      console.warn("Clipboard error:", error);
+      window.prompt("คัดลอกลิงก์นี้", url);
+    }
+
+    if (omitted.length > 0) {
+      alert(
+        `ลิงก์ไม่ได้รวมข้อมูลต่อไปนี้เพราะจะยาวเกินไป:\n${omitted.map((item) => `• ${item}`).join("\n")}\n` +
+        "หากต้องการแชร์แผนที่ครบทุกส่วน ให้ใช้ \"ส่งออกการตั้งค่า\" แทน"
+      );
+    }
+
+    if (url.length > SHARE_URL_WARN_LENGTH) {
+      alert(
+        `ลิงก์มีความยาว ${url.length.toLocaleString()} ตัวอักษร บางแอปหรืออีเมลอาจตัดลิงก์ให้สั้นลง\n` +
+        "หากเปิดไม่ได้ ให้ใช้ \"ส่งออกการตั้งค่า\" แทน"
+      );
+    }
   };
 
   const handleJSONImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -468,21 +1380,24 @@ export default function Home() {
     if (!file) return;
 
     try {
-      const config = await importFromJSON(file);
-
-      // Restore everything exactly like localStorage (same as save logic)
-      setCurrentLevel(config.currentLevel);
-      setAreaColors(new Map(config.areaColors));
-      setSelectedProvinces(config.selectedProvinces);
-      setSelectedDistricts(config.selectedDistricts);
-      setBorderColor(config.borderColor);
-      setShowAreaNames(config.showAreaNames);
-      setIsSaved(false);
+      const result = validateMapConfig(await importFromJSON(file), knownAreaCodes);
 
       // Reset file input
       event.target.value = "";
 
-      alert(`นำเข้าการตั้งค่าสำเร็จ: ${config.areaColors.length} พื้นที่มีสี\nระดับ: ${config.currentLevel}`);
+      if (!result.config) {
+        alert(`ไม่สามารถนำเข้าการตั้งค่าได้\n\n${formatValidationReport(result)}`);
+        return;
+      }
+
+      // Restore everything into the open project (same as opening a saved project)
+      applyMapConfig(result.config);
+      setIsSaved(false);
+
+      const report = result.warnings.length > 0 ? `\n\n${formatValidationReport(result)}` : "";
+      alert(
+        `นำเข้าการตั้งค่าสำเร็จ: ${result.config.areaColors.length} พื้นที่มีสี\nระดับ: ${result.config.currentLevel}${report}`
+      );
     } catch (error) {
       console.error("Import error:", error);
       alert("เกิดข้อผิดพลาดในการนำเข้าไฟล์ JSON กรุณาตรวจสอบรูปแบบไฟล์");
@@ -490,14 +1405,53 @@ export default function Home() {
     }
   };
 
-  const handleCSVImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Color and value tables (CSV or Excel) open the import dialog first
+  const openCSVImport = async (event: React.ChangeEvent<HTMLInputElement>, purpose: CSVImportPurpose) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     try {
-      const colorMap = await importFromCSV(file);
+      const bytes = await readFileBytes(file);
+      const source: CSVImportSource = isXLSXFile(file)
+        ? { kind: "xlsx", sheets: readXLSX(bytes) }
+        : { kind: "csv", bytes };
+      setCSVImport({ fileName: file.name, source, purpose });
+    } catch (error) {
+      console.error("CSV Import error:", error);
+      alert(isXLSXFile(file) ? "เกิดข้อผิดพลาดในการอ่านไฟล์ Excel" : "เกิดข้อผิดพลาดในการอ่านไฟล์ CSV");
+    }
+    // Reset file input so the same file can be picked again
+    event.target.value = "";
+  };
+
+  const handleCSVImport = (event: React.ChangeEvent<HTMLInputElement>) => openCSVImport(event, "colors");
+
+  const handleCSVMapped = (matches: RowMatch[], mapping: ColumnDetection, header?: string[]) => {
+    setCSVImport(null);
+    const importable = matches.filter((match) => match.status !== "invalid");
+
+    if (importable.every((match) => match.status === "matched")) {
+      applyImportedRows(importable);
+    } else {
+      // Let the user resolve shared and unknown names before anything is applied
+      setNameMatch({
+        matches: importable,
+        detectionSummary: describeDetection(mapping, header),
+      });
+    }
+  };
+
+  // Merge imported colors with existing colors; imported values replace the data table
+  const applyImportedRows = (matches: RowMatch[]) => {
+    const colorMap = new Map<string, string>();
+    const valueMap = new Map<string, number>();
+    matches.forEach((match) => {
+      if (!match.code) return;
+      if (match.color) colorMap.set(match.code, match.color);
+      if (match.value !== undefined) valueMap.set(match.code, match.value);
+    });
 
-      // Merge imported colors with existing colors
+    if (colorMap.size > 0) {
       setAreaColors((prevColors) => {
         const newColors = new Map(prevColors);
         colorMap.forEach((color, code) => {
@@ -505,35 +1459,76 @@ export default function Home() {
         });
         return newColors;
       });
+    }
+    if (valueMap.size > 0) {
+      // Classification settings are kept
+      setAreaValues(valueMap);
+    }
 
+    setIsSaved(false);
+    const summary = [
+      colorMap.size > 0 ? `สี ${colorMap.size} พื้นที่` : "",
+      valueMap.size > 0 ? `ข้อมูล ${valueMap.size} พื้นที่` : "",
+    ].filter(Boolean);
+    alert(summary.length > 0 ? `นำเข้าสำเร็จ: ${summary.join(", ")}` : "ไม่มีข้อมูลที่นำเข้าได้");
+  };
+
+  const handleValuesImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith(".json")) {
+      openCSVImport(event, "values");
+      return;
+    }
+
+    try {
+      const valueMap = await importValuesFromJSON(file);
+
+      // Replace the data table; classification settings are kept
+      setAreaValues(valueMap);
       setIsSaved(false);
 
-      // Reset file input
       event.target.value = "";
 
-      alert(`นำเข้าสีสำเร็จ: ${colorMap.size} พื้นที่`);
+      alert(`นำเข้าข้อมูลสำเร็จ: ${valueMap.size} พื้นที่`);
     } catch (error) {
-      console.error("CSV Import error:", error);
-      alert("เกิดข้อผิดพลาดในการนำเข้าไฟล์ CSV กรุณาตรวจสอบรูปแบบไฟล์");
+      console.error("Value import error:", error);
+      alert("เกิดข้อผิดพลาดในการนำเข้าไฟล์ข้อมูล กรุณาตรวจสอบรูปแบบไฟล์");
       event.target.value = "";
     }
   };
 
+  const handleChoroplethChange = (settings: ChoroplethSettings) => {
+    setChoropleth(settings);
+    setIsSaved(false);
+  };
+
+  const handleClearValues = () => {
+    setAreaValues(new Map());
+    setIsSaved(false);
+  };
+
   // Load provinces and districts list when component mounts
   useEffect(() => {
     const loadProvinces = async () => {
       try {
         const response = await fetch("/data/provinces.geojson");
         const data = (await response.json()) as {
-          features: Array<{ properties: { pro_code: string; pro_th: string } }>;
+          features: Array<{
+            properties: { pro_code: string; pro_th: string; pro_en: string; reg_royin: string; reg_nesdb: string };
+          }>;
         };
         const provinces: ProvinceItem[] = data.features
           .map((feature) => ({
             code: feature.properties.pro_code,
             name: feature.properties.pro_th,
+            nameEn: feature.properties.pro_en,
+            regions: getRegionCodes(feature.properties),
           }))
           .sort((a, b) => a.name.localeCompare(b.name));
         setAvailableProvinces(provinces);
+        setAvailableRegions(collectRegions(data.features.map((feature) => feature.properties)));
       } catch (error) {
         console.error("Error loading provinces:", error);
       }
@@ -544,80 +1539,440 @@ export default function Home() {
         const response = await fetch("/data/districts.geojson");
         const data = (await response.json()) as {
           features: Array<{
-            properties: { amp_code: string; amp_th: string; pro_code: string };
+            properties: { amp_code: string; amp_th: string; amp_en: string; pro_code: string };
           }>;
         };
         const districts: DistrictItem[] = data.features
           .map((feature) => ({
             code: feature.properties.amp_code,
             name: feature.properties.amp_th,
+            nameEn: feature.properties.amp_en,
             provinceCode: feature.properties.pro_code,
           }))
           .sort((a, b) => a.name.localeCompare(b.name));
         setAvailableDistricts(districts);
       } catch (error) {
-        console.error("Error loading districts:", error);
+        console.error("Error loading districts:", error);
+      }
+    };
+
+    const loadSubdistricts = async () => {
+      try {
+        const response = await fetch("/data/subdistricts.geojson");
+        const data = (await response.json()) as {
+          features: Array<{
+            properties: { tam_code: string; tam_th: string; tam_en: string; amp_code: string; pro_code: string };
+          }>;
+        };
+        const subdistricts: SubdistrictItem[] = data.features
+          .map((feature) => ({
+            code: feature.properties.tam_code,
+            name: feature.properties.tam_th,
+            nameEn: feature.properties.tam_en,
+            districtCode: feature.properties.amp_code,
+            provinceCode: feature.properties.pro_code,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setAvailableSubdistricts(subdistricts);
+      } catch (error) {
+        console.error("Error loading subdistricts:", error);
+      }
+    };
+
+    loadProvinces();
+    loadDistricts();
+    loadSubdistricts();
+  }, []);
+
+  // Names of all loaded areas, for importing colors by name
+  const areaNameIndex = useMemo(() => {
+    const records: AreaNameRecord[] = [
+      ...availableProvinces.map((province): AreaNameRecord => ({
+        code: province.code,
+        level: "provinces",
+        nameTh: province.name,
+        nameEn: province.nameEn,
+        provinceCode: province.code,
+      })),
+      ...availableDistricts.map((district): AreaNameRecord => ({
+        code: district.code,
+        level: "districts",
+        nameTh: district.name,
+        nameEn: district.nameEn,
+        provinceCode: district.provinceCode,
+      })),
+      ...availableSubdistricts.map((subdistrict): AreaNameRecord => ({
+        code: subdistrict.code,
+        level: "subdistricts",
+        nameTh: subdistrict.name,
+        nameEn: subdistrict.nameEn,
+        provinceCode: subdistrict.provinceCode,
+        districtCode: subdistrict.districtCode,
+      })),
+      ...availableRegions.map((region): AreaNameRecord => ({
+        code: region.code,
+        level: region.level,
+        nameTh: region.name,
+        nameEn: region.nameEn,
+        provinceCode: "",
+      })),
+    ];
+    return new AreaNameIndex(records);
+  }, [availableProvinces, availableDistricts, availableSubdistricts, availableRegions]);
+
+  // Thai name of every loaded area by code
+  const areaNamesByCode = useMemo(
+    () =>
+      new Map<string, string>([
+        ...availableProvinces.map((province): [string, string] => [province.code, province.name]),
+        ...availableDistricts.map((district): [string, string] => [district.code, district.name]),
+        ...availableSubdistricts.map((subdistrict): [string, string] => [subdistrict.code, subdistrict.name]),
+        ...availableRegions.map((region): [string, string] => [region.code, region.name]),
+      ]),
+    [availableProvinces, availableDistricts, availableSubdistricts, availableRegions]
+  );
+
+  // Codes of the loaded areas, used to report unknown codes in imported configs
+  const knownAreaCodes = useMemo(() => {
+    const known: KnownAreaCodes = {};
+    if (availableProvinces.length > 0) {
+      known.provinces = new Set(availableProvinces.map((province) => province.code));
+    }
+    if (availableDistricts.length > 0) {
+      known.districts = new Set(availableDistricts.map((district) => district.code));
+    }
+    if (availableSubdistricts.length > 0) {
+      known.subdistricts = new Set(availableSubdistricts.map((subdistrict) => subdistrict.code));
+    }
+    if (availableRegions.length > 0) {
+      REGION_LEVELS.forEach((level) => {
+        known[level] = new Set(availableRegions.filter((region) => region.level === level).map((region) => region.code));
+      });
+    }
+    return known;
+  }, [availableProvinces, availableDistricts, availableSubdistricts, availableRegions]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest(".province-dropdown")) {
+        setIsDropdownOpen(false);
+      }
+      if (!target.closest(".district-dropdown")) {
+        setIsDistrictDropdownOpen(false);
+      }
+      if (!target.closest(".region-dropdown")) {
+        setIsRegionDropdownOpen(false);
+      }
+      if (!target.closest(".export-dropdown")) {
+        setIsExportDropdownOpen(false);
+      }
+      if (!target.closest(".import-dropdown")) {
+        setIsImportDropdownOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // Provinces in the selected regions; the province and district lists only offer these
+  const regionProvinces = useMemo(
+    () => provincesInRegions(availableProvinces, selectedRegions),
+    [availableProvinces, selectedRegions]
+  );
+
+  // Filter provinces based on search term ("จ.เชียง", "Chiang Mai Province")
+  const filteredProvinces = availableProvinces.filter((province) =>
+    adminNameIncludes([province.name, province.nameEn], searchTerm) &&
+    (!regionProvinces || regionProvinces.has(province.code))
+  );
+
+  // Filter districts based on search term ("อ.เมือง", "Amphoe Muang")
+  const filteredDistricts = availableDistricts.filter((district) =>
+    adminNameIncludes([district.name, district.nameEn], districtSearchTerm) &&
+    (!regionProvinces || regionProvinces.has(district.provinceCode))
+  );
+
+  const handleRegionToggle = (regionCode: string) => {
+    setSelectedRegions((prev) =>
+      prev.includes(regionCode)
+        ? prev.filter((code) => code !== regionCode)
+        : [...prev, regionCode]
+    );
+    setIsSaved(false);
+  };
+
+  const handleClearRegionSelection = () => {
+    setSelectedRegions([]);
+    setIsSaved(false);
+  };
+
+  // Paint many areas with the selected color in one step (one undo entry)
+  const paintAreas = (codes: string[]) => {
+    if (codes.length === 0) return;
+    setAreaColors((prev) => {
+      const next = new Map(prev);
+      codes.forEach((code) => next.set(code, selectedColor));
+      return next;
+    });
+    setIsSaved(false);
+  };
+
+  // A selection or neighbor highlight only makes sense for the areas it was made on
+  useEffect(() => {
+    setAreaSelection([]);
+    setNeighborHighlight(null);
+  }, [currentLevel, selectedProvinces, selectedDistricts, selectedRegions]);
+
+  const handleAreasSelected = useCallback((codes: string[], additive: boolean) => {
+    setAreaSelection((prev) => (additive ? Array.from(new Set([...prev, ...codes])) : codes));
+  }, []);
+
+  const handlePaintSelection = () => {
+    paintAreas(areaSelection);
+    setAreaSelection([]);
+  };
+
+  const handleEraseSelection = () => {
+    if (areaSelection.length === 0) return;
+    setAreaColors((prev) => {
+      const next = new Map(prev);
+      areaSelection.forEach((code) => next.delete(code));
+      return next;
+    });
+    setIsSaved(false);
+    setAreaSelection([]);
+  };
+
+  const setAreasLocked = (codes: string[], locked: boolean) => {
+    if (codes.length === 0) return;
+    setLockedAreas((prev) => {
+      const next = new Set(prev);
+      codes.forEach((code) => (locked ? next.add(code) : next.delete(code)));
+      return next;
+    });
+    setIsSaved(false);
+  };
+
+  const handleToggleAreaLock = useCallback((code: string) => {
+    setLockedAreas((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(code)) next.add(code);
+      return next;
+    });
+    setIsSaved(false);
+  }, []);
+
+  const isSelectionLocked = areaSelection.length > 0 && areaSelection.every((code) => lockedAreas.has(code));
+
+  const handleToggleSelectionLock = () => {
+    setAreasLocked(areaSelection, !isSelectionLocked);
+    setAreaSelection([]);
+  };
+
+  const handleShowNeighbors = useCallback(
+    async (code: string) => {
+      try {
+        await dataManager.loadLevel(currentLevel);
+        setNeighborHighlight({ code, neighbors: dataManager.getNeighbors(code, currentLevel) });
+      } catch (error) {
+        console.error("Neighbor lookup error:", error);
+        alert("ไม่สามารถโหลดข้อมูลขอบเขตเพื่อหาพื้นที่ข้างเคียงได้");
       }
-    };
+    },
+    [dataManager, currentLevel]
+  );
 
-    const loadSubdistricts = async () => {
+  // The search box covers every level, so all of them are indexed, but only
+  // once the box is first used; a level that fails to load is left out
+  const handleSearchFocus = () => {
+    if (searchLoadStartedRef.current) return;
+    searchLoadStartedRef.current = true;
+    Promise.allSettled(MAP_LEVELS.map((level) => dataManager.loadLevel(level))).then(() =>
+      setIsSearchReady(true)
+    );
+  };
+
+  // Show a search result: switch to its level, widen filters that hide it, fly
+  // to it and, when picked with Enter and paint-on-Enter is on, paint it
+  const handleSearchSelect = (result: SearchResult, pressedEnter: boolean) => {
+    const { feature, level } = result;
+    const properties = feature.properties;
+    const provinceCode = String(properties.pro_code ?? "");
+    const districtCode = String(properties.amp_code ?? "");
+    let isViewChanged = level !== currentLevel;
+
+    setCurrentLevel(level);
+    if (!isRegionLevel(level) && !matchesRegionFilter(getRegionCodes(properties), selectedRegions)) {
+      setSelectedRegions([]);
+      isViewChanged = true;
+    }
+    if (
+      (level === "districts" || level === "subdistricts") &&
+      selectedProvinces.length > 0 &&
+      !selectedProvinces.includes(provinceCode)
+    ) {
+      setSelectedProvinces([...selectedProvinces, provinceCode]);
+      isViewChanged = true;
+    }
+    if (level === "subdistricts" && selectedDistricts.length > 0 && !selectedDistricts.includes(districtCode)) {
+      setSelectedDistricts([...selectedDistricts, districtCode]);
+      isViewChanged = true;
+    }
+    if (isViewChanged) setIsSaved(false);
+
+    setFocusedArea({ geometry: feature.geometry });
+    if (pressedEnter && paintOnSearchEnter) paintAreas([getAreaCode(properties, level)]);
+  };
+
+  const handleIdentify = useCallback(
+    async (lat: number, lng: number) => {
       try {
-        const response = await fetch("/data/subdistricts.geojson");
-        const data = (await response.json()) as {
-          features: Array<{
-            properties: { tam_code: string; tam_th: string; amp_code: string; pro_code: string };
-          }>;
-        };
-        const subdistricts: SubdistrictItem[] = data.features
-          .map((feature) => ({
-            code: feature.properties.tam_code,
-            name: feature.properties.tam_th,
-            districtCode: feature.properties.amp_code,
-            provinceCode: feature.properties.pro_code,
-          }))
-          .sort((a, b) => a.name.localeCompare(b.name));
-        setAvailableSubdistricts(subdistricts);
+        const hierarchy = await dataManager.reverseGeocode(lat, lng);
+        setIdentified({ point: [lat, lng], hierarchy });
       } catch (error) {
-        console.error("Error loading subdistricts:", error);
+        console.error("Reverse geocoding error:", error);
+        alert("ไม่สามารถโหลดข้อมูลขอบเขตเพื่อระบุพื้นที่ได้");
       }
-    };
+    },
+    [dataManager]
+  );
 
-    loadProvinces();
-    loadDistricts();
-    loadSubdistricts();
-  }, []);
+  const handleCoordinateSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const point = parseLatLng(coordinateInput);
+    if (!point) {
+      setCoordinateError("พิมพ์พิกัดเป็น ละติจูด, ลองจิจูด เช่น 13.7563, 100.5018");
+      return;
+    }
+    setCoordinateError("");
+    handleIdentify(point[0], point[1]);
+  };
 
-  // Close dropdown when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      const target = event.target as Element;
-      if (!target.closest(".province-dropdown")) {
-        setIsDropdownOpen(false);
-      }
-      if (!target.closest(".district-dropdown")) {
-        setIsDistrictDropdownOpen(false);
-      }
-      if (!target.closest(".export-dropdown")) {
-        setIsExportDropdownOpen(false);
+  const identifiedRows = identified?.hierarchy
+    ? [
+        { label: "ตำบล", unit: identified.hierarchy.subdistrict, showCode: true },
+        { label: "อำเภอ", unit: identified.hierarchy.district, showCode: true },
+        { label: "จังหวัด", unit: identified.hierarchy.province, showCode: true },
+        { label: `ภาค (${REGION_SCHEME_NAMES.region_royin})`, unit: identified.hierarchy.regionRoyin, showCode: false },
+        { label: `ภาค (${REGION_SCHEME_NAMES.region_nesdb})`, unit: identified.hierarchy.regionNesdb, showCode: false },
+      ].filter((row) => row.unit)
+    : [];
+
+  const highlightedNeighbors = useMemo(
+    () =>
+      neighborHighlight
+        ? { code: neighborHighlight.code, neighbors: neighborHighlight.neighbors.map((neighbor) => neighbor.code) }
+        : null,
+    [neighborHighlight]
+  );
+
+  // Recolor the displayed areas from the palette so that no neighbors share a color;
+  // locked areas keep theirs (or stay blank) and their neighbors avoid it
+  const handleAutoColor = async () => {
+    setIsAutoColoring(true);
+    try {
+      const collection = await dataManager.loadLevel(currentLevel);
+
+      const filters = { level: currentLevel, selectedProvinces, selectedDistricts, selectedRegions };
+      const areas = collection.features
+        .filter((feature) => isAreaDisplayed(feature.properties, filters))
+        .map((feature) => ({ code: getAreaCode(feature.properties, currentLevel), geometry: feature.geometry }))
+        .filter((area) => !lockedAreas.has(area.code) || areaColors.has(area.code));
+      const locked = new Map(
+        areas.filter((area) => lockedAreas.has(area.code)).map((area) => [area.code, areaColors.get(area.code)!])
+      );
+
+      const result = autoColor(buildAdjacency(areas), palette, locked);
+      if (result.colors.size === 0) {
+        alert("ไม่มีพื้นที่ที่ลงสีอัตโนมัติได้ (ทุกพื้นที่ถูกล็อกหรือชุดสีว่าง)");
+        return;
       }
-      if (!target.closest(".import-dropdown")) {
-        setIsImportDropdownOpen(false);
+      setAreaColors((prev) => {
+        const next = new Map(prev);
+        result.colors.forEach((color, code) => next.set(code, color));
+        return next;
+      });
+      setIsSaved(false);
+      if (result.conflicts > 0) {
+        alert(`ชุดสีมีสีไม่พอหรือพื้นที่ที่ล็อกบังคับสีไว้ ทำให้มีพื้นที่ติดกัน ${result.conflicts} คู่ที่ได้สีเดียวกัน`);
       }
-    };
+    } catch (error) {
+      console.error("Auto color error:", error);
+      alert("เกิดข้อผิดพลาดในการลงสีอัตโนมัติ");
+    } finally {
+      setIsAutoColoring(false);
+    }
+  };
 
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, []);
+  // Selected provinces filter the districts, selected districts the subdistricts, selected regions everything
+  const selectionFilterLabel =
+    currentLevel === "provinces"
+      ? "เพิ่มในตัวกรองจังหวัด"
+      : currentLevel === "districts"
+        ? "เพิ่มในตัวกรองอำเภอ"
+        : isRegionLevel(currentLevel)
+          ? "เพิ่มในตัวกรองภาค"
+          : null;
+
+  const handleAddSelectionToFilter = () => {
+    const merge = (prev: string[]) => Array.from(new Set([...prev, ...areaSelection]));
+    if (currentLevel === "provinces") {
+      setSelectedProvinces(merge);
+    } else if (currentLevel === "districts") {
+      setSelectedDistricts(merge);
+    } else if (isRegionLevel(currentLevel)) {
+      setSelectedRegions(merge);
+    } else {
+      return;
+    }
+    setIsSaved(false);
+    setAreaSelection([]);
+  };
 
-  // Filter provinces based on search term
-  const filteredProvinces = availableProvinces.filter((province) =>
-    province.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Areas of the current level in the selected regions, within the province/district filters
+  const handlePaintSelectedRegions = () => {
+    if (!regionProvinces) return;
+    if (currentLevel === "provinces") {
+      paintAreas(availableProvinces.filter((province) => regionProvinces.has(province.code)).map((item) => item.code));
+    } else if (currentLevel === "districts") {
+      paintAreas(
+        availableDistricts
+          .filter((district) =>
+            regionProvinces.has(district.provinceCode) &&
+            (selectedProvinces.length === 0 || selectedProvinces.includes(district.provinceCode))
+          )
+          .map((item) => item.code)
+      );
+    } else if (currentLevel === "subdistricts") {
+      paintAreas(
+        availableSubdistricts
+          .filter((subdistrict) =>
+            regionProvinces.has(subdistrict.provinceCode) &&
+            (selectedDistricts.length === 0 || selectedDistricts.includes(subdistrict.districtCode))
+          )
+          .map((item) => item.code)
+      );
+    }
+  };
 
-  // Filter districts based on search term
-  const filteredDistricts = availableDistricts.filter((district) =>
-    district.name.toLowerCase().includes(districtSearchTerm.toLowerCase())
-  );
+  const handlePaintSelectedProvinces = () => {
+    paintAreas(
+      availableDistricts
+        .filter((district) => selectedProvinces.includes(district.provinceCode))
+        .map((district) => district.code)
+    );
+  };
+
+  const handlePaintSelectedDistricts = () => {
+    paintAreas(
+      availableSubdistricts
+        .filter((subdistrict) => selectedDistricts.includes(subdistrict.districtCode))
+        .map((subdistrict) => subdistrict.code)
+    );
+  };
 
   const handleProvinceToggle = (provinceCode: string) => {
     setSelectedProvinces((prev) =>
@@ -665,9 +2020,6 @@ export default function Home() {
       const old = next[index];
       next[index] = newColor;
 
-      // Save updated palette to localStorage
-      savePalette(next);
-
       // ถ้ากำลังเลือกสีเดิมอยู่ ให้ตามไปเป็นสีใหม่ด้วย
       if (selectedColor === old) {
         setSelectedColor(newColor);
@@ -697,8 +2049,61 @@ export default function Home() {
             </p>
           </div>
 
+          {/* Global Search */}
+          <div className="flex items-center space-x-1 mx-2 w-40 sm:w-64 lg:w-80 flex-shrink-0">
+            <SearchBar
+              dataManager={dataManager}
+              onResultSelect={handleSearchSelect}
+              onFocus={handleSearchFocus}
+              isDataReady={isSearchReady}
+              placeholder="ค้นหาจังหวัด อำเภอ ตำบล หรือที่อยู่..."
+              className="flex-1 min-w-0"
+            />
+            <button
+              onClick={() => setPaintOnSearchEnter(!paintOnSearchEnter)}
+              className={`flex items-center p-1.5 border transition-all duration-200 rounded-sm flex-shrink-0 ${paintOnSearchEnter
+                ? "border-blue-400 bg-blue-50 hover:bg-blue-100"
+                : "border-gray-300 bg-white hover:bg-gray-50"
+                }`}
+              title={paintOnSearchEnter ? "กด Enter: ลงสีผลการค้นหาด้วยสีที่เลือก (เปิด)" : "กด Enter: ลงสีผลการค้นหาด้วยสีที่เลือก (ปิด)"}
+            >
+              <Paintbrush className={`h-3.5 w-3.5 ${paintOnSearchEnter ? "text-blue-600" : "text-gray-500"}`} />
+            </button>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex items-center space-x-2">
+            {/* Project Manager */}
+            <ProjectManager
+              projects={projects}
+              activeProjectId={activeProjectId}
+              isSaved={isSaved}
+              onCreate={handleCreateProject}
+              onSwitch={handleSwitchProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+            />
+
+            {/* Choropleth Data Panel */}
+            <ChoroplethPanel
+              valueCount={areaValues.size}
+              settings={choropleth}
+              result={classification}
+              onSettingsChange={handleChoroplethChange}
+              onImportValues={handleValuesImport}
+              onClearValues={handleClearValues}
+            />
+
+            {/* Territory Panel */}
+            <TerritoryPanel
+              isEnabled={isTerritoryMode}
+              isLoading={isTerritoryMode && territoryData?.level !== currentLevel}
+              territories={territories}
+              onToggle={setIsTerritoryMode}
+              onExport={handleTerritoryExport}
+            />
+
             {/* Save Configuration Button */}
             <button
               onClick={handleSaveConfig}
@@ -707,7 +2112,7 @@ export default function Home() {
                 ? "border-gray-300 bg-gray-100 cursor-not-allowed"
                 : "border-green-300 bg-white hover:bg-green-50 hover:border-green-400 cursor-pointer"
                 }`}
-              title={isSaved ? "ไม่มีการเปลี่ยนแปลง" : "บันทึกการตั้งค่า"}
+              title={isSaved ? "ไม่มีการเปลี่ยนแปลง" : "บันทึกโปรเจกต์"}
             >
               <Save className={`h-3 w-3 sm:h-3.5 sm:w-3.5 ${isSaved ? "text-gray-400" : "text-green-600"}`} />
               <span className={`text-xs font-medium hidden sm:inline ${isSaved ? "text-gray-400" : "text-green-600"}`}>
@@ -715,6 +2120,22 @@ export default function Home() {
               </span>
             </button>
 
+            {/* Copy Share Link Button */}
+            <button
+              onClick={handleCopyShareLink}
+              className="flex items-center space-x-1 sm:space-x-1.5 px-2 sm:px-2.5 py-1.5 border border-gray-300 bg-white hover:bg-indigo-50 hover:border-indigo-300 transition-all duration-200 rounded-sm flex-shrink-0"
+              title="คัดลอกลิงก์แผนที่นี้"
+            >
+              {isLinkCopied ? (
+                <Check className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-green-600" />
+              ) : (
+                <Link2 className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-indigo-600" />
+              )}
+              <span className={`text-xs font-medium hidden sm:inline ${isLinkCopied ? "text-green-600" : "text-indigo-600"}`}>
+                {isLinkCopied ? "คัดลอกแล้ว" : "แชร์ลิงก์"}
+              </span>
+            </button>
+
             {/* Export Dropdown */}
             <div className="relative export-dropdown">
               <button
@@ -746,13 +2167,60 @@ export default function Home() {
                       <span>ส่งออกการตั้งค่า</span>
                     </button>
 
+                    {/* Export Image Options */}
+                    <button
+                      onClick={() => {
+                        setImageExportFormat("png");
+                        setIsExportDropdownOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                    >
+                      <ImageIcon className="h-3 w-3 text-gray-500" />
+                      <span>ส่งออกภาพ (PNG)</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setImageExportFormat("svg");
+                        setIsExportDropdownOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                    >
+                      <ImageIcon className="h-3 w-3 text-gray-500" />
+                      <span>ส่งออกภาพเวกเตอร์ (SVG)</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setPrintSnapshot(mapApiRef.current?.getSnapshot() || null);
+                        setIsExportDropdownOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                    >
+                      <Printer className="h-3 w-3 text-gray-500" />
+                      <span>จัดหน้าพิมพ์ (PDF)</span>
+                    </button>
+
                     {/* Separator */}
                     <div className="border-t border-gray-200 my-1"></div>
 
+                    {/* Export Regions */}
+                    {REGION_LEVELS.map((level) => (
+                      <button
+                        key={level}
+                        onClick={() => {
+                          exportRegions(level, areaColors, availableRegions);
+                          setIsExportDropdownOpen(false);
+                        }}
+                        className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                      >
+                        <div className="w-3 h-3 border border-gray-400 rounded-sm bg-amber-200"></div>
+                        <span>ส่งออกภาค ({REGION_SCHEME_NAMES[level]})</span>
+                      </button>
+                    ))}
+
                     {/* Export Provinces */}
                     <button
                       onClick={() => {
-                        exportProvinces(areaColors, availableProvinces);
+                        exportProvinces(areaColors, availableProvinces, selectedRegions);
                         setIsExportDropdownOpen(false);
                       }}
                       className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
@@ -764,7 +2232,7 @@ export default function Home() {
                     {/* Export Districts */}
                     <button
                       onClick={() => {
-                        exportDistricts(areaColors, availableDistricts, availableProvinces, selectedProvinces);
+                        exportDistricts(areaColors, availableDistricts, availableProvinces, selectedProvinces, selectedRegions);
                         setIsExportDropdownOpen(false);
                       }}
                       className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
@@ -776,7 +2244,14 @@ export default function Home() {
                     {/* Export Subdistricts */}
                     <button
                       onClick={() => {
-                        exportSubdistricts(areaColors, availableSubdistricts, availableDistricts, availableProvinces, selectedDistricts);
+                        exportSubdistricts(
+                          areaColors,
+                          availableSubdistricts,
+                          availableDistricts,
+                          availableProvinces,
+                          selectedDistricts,
+                          selectedRegions
+                        );
                         setIsExportDropdownOpen(false);
                       }}
                       className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
@@ -784,6 +2259,46 @@ export default function Home() {
                       <div className="w-3 h-3 border border-gray-400 rounded-sm bg-blue-200"></div>
                       <span>ส่งออกตำบล</span>
                     </button>
+
+                    {/* Export Workbook */}
+                    <button
+                      onClick={() => {
+                        exportWorkbook(
+                          areaColors,
+                          areaValues,
+                          availableProvinces,
+                          availableDistricts,
+                          availableSubdistricts,
+                          availableRegions,
+                          selectedProvinces,
+                          selectedDistricts,
+                          selectedRegions
+                        );
+                        setIsExportDropdownOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                    >
+                      <FileSpreadsheet className="h-3 w-3 text-green-600" />
+                      <span>ส่งออก Excel (ทุกระดับ)</span>
+                    </button>
+
+                    {/* Separator */}
+                    <div className="border-t border-gray-200 my-1"></div>
+
+                    {/* Export GIS Files */}
+                    {GIS_FORMATS.map((item) => (
+                      <button
+                        key={item.value}
+                        onClick={() => {
+                          handleGISExport(item.value);
+                          setIsExportDropdownOpen(false);
+                        }}
+                        className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2"
+                      >
+                        <Globe className="h-3 w-3 text-gray-500" />
+                        <span>ส่งออกพื้นที่ที่ลงสี ({item.label})</span>
+                      </button>
+                    ))}
                   </div>
                 </div>
               )}
@@ -829,10 +2344,10 @@ export default function Home() {
                     {/* Import CSV Colors */}
                     <label className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 flex items-center space-x-2 cursor-pointer">
                       <div className="w-3 h-3 border border-gray-400 rounded-sm bg-yellow-200"></div>
-                      <span>นำเข้าสี (CSV)</span>
+                      <span>นำเข้าสี (CSV/Excel: รหัสหรือชื่อ)</span>
                       <input
                         type="file"
-                        accept=".csv"
+                        accept=".csv,.xlsx"
                         onChange={(e) => {
                           handleCSVImport(e);
                           setIsImportDropdownOpen(false);
@@ -872,6 +2387,117 @@ export default function Home() {
               </select>
             </div>
 
+            {/* Click Mode */}
+            <div className="flex items-center space-x-1.5 flex-shrink-0 self-start sm:self-auto">
+              <div className="flex items-center border border-gray-300 rounded-sm overflow-hidden">
+                {INTERACTION_MODES.map((mode, index) => {
+                  const Icon = mode.icon;
+                  return (
+                    <button
+                      key={mode.value}
+                      onClick={() => setInteractionMode(mode.value)}
+                      className={`flex items-center space-x-1 px-2 py-1.5 text-xs font-medium transition-colors ${index > 0 ? "border-l border-gray-300" : ""
+                        } ${interactionMode === mode.value ? "bg-gray-800 text-white" : "bg-white text-gray-700 hover:bg-gray-100"}`}
+                      title={mode.title}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                      <span>{mode.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+              {(interactionMode === "box" || interactionMode === "lasso") && (
+                <select
+                  value={selectionMode}
+                  onChange={(e) => setSelectionMode(e.target.value as SelectionMode)}
+                  className="px-1.5 py-1.5 border border-gray-300 bg-white text-xs focus:outline-none focus:border-blue-400 rounded-sm"
+                  title="วิธีเลือกพื้นที่"
+                >
+                  {SELECTION_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* Region Filter - for every level below the regions */}
+            {!isRegionLevel(currentLevel) && (
+              <div className="flex items-center space-x-1.5 w-full sm:w-auto">
+                <span className="text-sm font-medium text-gray-700 flex-shrink-0">
+                  ภาค:
+                </span>
+                <div className="relative region-dropdown flex-1 sm:flex-initial">
+                  <button
+                    onClick={() => setIsRegionDropdownOpen(!isRegionDropdownOpen)}
+                    className="w-full sm:w-auto sm:min-w-[140px] px-2.5 py-1.5 border border-gray-300 bg-white text-sm font-medium focus:outline-none focus:border-blue-400 rounded-sm hover:border-gray-400 transition-colors flex items-center justify-between"
+                  >
+                    <span className="truncate">
+                      {selectedRegions.length === 0
+                        ? "ทุกภาค"
+                        : selectedRegions.length === 1
+                          ? availableRegions.find((r) => r.code === selectedRegions[0])?.name
+                          : `${selectedRegions.length} ภาค`}
+                    </span>
+                    <ChevronDown
+                      className={`h-4 w-4 transition-transform flex-shrink-0 ${isRegionDropdownOpen ? "rotate-180" : ""
+                        }`}
+                    />
+                  </button>
+
+                  {isRegionDropdownOpen && (
+                    <div className="absolute top-full left-0 right-0 sm:w-72 mt-1 bg-white border border-gray-300 rounded-sm shadow-lg max-h-80 overflow-hidden z-500">
+                      <div className="p-2 border-b border-gray-200 flex space-x-2">
+                        <button
+                          onClick={handleClearRegionSelection}
+                          className="px-2 py-1 text-xs border border-gray-300 bg-white hover:bg-gray-100"
+                        >
+                          ล้าง
+                        </button>
+                        <button
+                          onClick={handlePaintSelectedRegions}
+                          disabled={selectedRegions.length === 0}
+                          className="ml-auto px-2 py-1 text-xs border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50 flex items-center space-x-1"
+                          title="ลงสีพื้นที่ทั้งหมดในภาคที่เลือกด้วยสีที่เลือก"
+                        >
+                          <span className="w-3 h-3 border border-gray-400 rounded-sm" style={{ backgroundColor: selectedColor }} />
+                          <span>ลงสีที่เลือก</span>
+                        </button>
+                      </div>
+
+                      {/* Region list, grouped by classification */}
+                      <div className="max-h-64 overflow-y-auto">
+                        {REGION_LEVELS.map((level) => (
+                          <div key={level}>
+                            <div className="px-3 pt-2 pb-1 text-[10px] font-medium text-gray-500">
+                              ภาค ({REGION_SCHEME_NAMES[level]})
+                            </div>
+                            {availableRegions
+                              .filter((region) => region.level === level)
+                              .map((region) => (
+                                <label
+                                  key={region.code}
+                                  className="flex items-center px-3 py-1.5 hover:bg-gray-100 cursor-pointer"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedRegions.includes(region.code)}
+                                    onChange={() => handleRegionToggle(region.code)}
+                                    className="mr-2"
+                                  />
+                                  <span className="text-sm">{region.name}</span>
+                                </label>
+                              ))}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Province Filter - only show for districts level */}
             {currentLevel === "districts" && (
               <div className="flex items-center space-x-1.5 w-full sm:w-auto">
@@ -937,6 +2563,15 @@ export default function Home() {
                         >
                           ล้าง
                         </button>
+                        <button
+                          onClick={handlePaintSelectedProvinces}
+                          disabled={selectedProvinces.length === 0}
+                          className="ml-auto px-2 py-1 text-xs border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50 flex items-center space-x-1"
+                          title="ลงสีอำเภอทั้งหมดในจังหวัดที่เลือกด้วยสีที่เลือก"
+                        >
+                          <span className="w-3 h-3 border border-gray-400 rounded-sm" style={{ backgroundColor: selectedColor }} />
+                          <span>ลงสีที่เลือก</span>
+                        </button>
                       </div>
 
                       {/* Province list */}
@@ -1041,6 +2676,15 @@ export default function Home() {
                         >
                           ล้าง
                         </button>
+                        <button
+                          onClick={handlePaintSelectedDistricts}
+                          disabled={selectedDistricts.length === 0}
+                          className="ml-auto px-2 py-1 text-xs border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50 flex items-center space-x-1"
+                          title="ลงสีตำบลทั้งหมดในอำเภอที่เลือกด้วยสีที่เลือก"
+                        >
+                          <span className="w-3 h-3 border border-gray-400 rounded-sm" style={{ backgroundColor: selectedColor }} />
+                          <span>ลงสีที่เลือก</span>
+                        </button>
                       </div>
 
                       {/* District list */}
@@ -1098,6 +2742,16 @@ export default function Home() {
                 >
                   {isEditingPalette ? "เสร็จ" : "แก้ไข"}
                 </button>
+                <button
+                  type="button"
+                  onClick={handleAutoColor}
+                  disabled={isAutoColoring}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 rounded-sm transition-colors disabled:opacity-50"
+                  title={`ลงสีพื้นที่ที่แสดงอยู่จากชุดสี โดยพื้นที่ที่ติดกันไม่ซ้ำสี${lockedAreas.size > 0 ? ` (ล็อกไว้ ${lockedAreas.size.toLocaleString()} พื้นที่)` : ""}`}
+                >
+                  <WandSparkles className="h-3 w-3" />
+                  <span>{isAutoColoring ? "กำลังลงสี..." : "อัตโนมัติ"}</span>
+                </button>
               </div>
 
               {/* ปุ่มเลือกสี + ช่องแก้ไขสี */}
@@ -1171,6 +2825,24 @@ export default function Home() {
 
             {/* Action Buttons Group - Stay together on small screens */}
             <div className="flex items-center space-x-2">
+              {/* Undo / Redo Buttons */}
+              <button
+                onClick={() => applyHistory("undo")}
+                disabled={!undoLabel}
+                className="flex items-center px-2 py-1.5 border border-gray-300 bg-white hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 rounded-sm flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={undoLabel ? `เลิกทำ: ${undoLabel} (Ctrl+Z)` : "เลิกทำ (Ctrl+Z)"}
+              >
+                <Undo2 className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => applyHistory("redo")}
+                disabled={!redoLabel}
+                className="flex items-center px-2 py-1.5 border border-gray-300 bg-white hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 rounded-sm flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={redoLabel ? `ทำซ้ำ: ${redoLabel} (Ctrl+Shift+Z)` : "ทำซ้ำ (Ctrl+Shift+Z)"}
+              >
+                <Redo2 className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-gray-600" />
+              </button>
+
               {/* Toggle Area Names Button */}
               <button
                 onClick={() => {
@@ -1190,6 +2862,19 @@ export default function Home() {
                 </span>
               </button>
 
+              {/* Toggle Legend Button */}
+              <button
+                onClick={() => updateLegend({ show: !legend.show })}
+                className={`flex items-center space-x-1 sm:space-x-1.5 px-2 sm:px-2.5 py-1.5 border transition-all duration-200 rounded-sm flex-shrink-0 ${legend.show
+                  ? "border-blue-400 bg-blue-50 hover:bg-blue-100"
+                  : "border-gray-300 bg-white hover:bg-gray-50 hover:border-gray-400"
+                  }`}
+                title={legend.show ? "ซ่อนคำอธิบายสัญลักษณ์" : "แสดงคำอธิบายสัญลักษณ์"}
+              >
+                <List className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-gray-600" />
+                <span className="text-xs font-medium text-gray-600 sm:inline">สัญลักษณ์</span>
+              </button>
+
               {/* Clear Colors Button */}
               <button
                 onClick={handleClearColors}
@@ -1217,10 +2902,268 @@ export default function Home() {
           onMapReady={() => setIsLoading(false)}
           selectedProvinces={selectedProvinces}
           selectedDistricts={selectedDistricts}
+          selectedRegions={selectedRegions}
           borderColor={borderColor}
           showAreaNames={showAreaNames}
+          classifiedColors={classifiedColors}
+          showLegend={legend.show}
+          legendEntries={legendEntries}
+          legendTitle={legend.title}
+          legendPosition={legend.position}
+          onLegendTitleChange={(title) => updateLegend({ title })}
+          onLegendLabelChange={(color, label) =>
+            updateLegend({ labels: setLegendLabel(legend.labels, color, label) })
+          }
+          onLegendPositionChange={(position) => updateLegend({ position })}
+          onMapApiReady={(api) => {
+            mapApiRef.current = api;
+          }}
+          initialView={initialView}
+          territoryOutlines={isTerritoryMode ? territories.map((territory) => territory.geometry) : undefined}
+          interactionMode={interactionMode}
+          onAreaExplore={handleAreaExplore}
+          selectionMode={selectionMode}
+          selectedAreaCodes={areaSelection}
+          onAreasSelected={handleAreasSelected}
+          lockedAreas={lockedAreas}
+          onToggleAreaLock={handleToggleAreaLock}
+          highlightedNeighbors={highlightedNeighbors}
+          onShowNeighbors={handleShowNeighbors}
+          identifiedPoint={interactionMode === "identify" ? identified?.point : null}
+          onIdentify={handleIdentify}
+          focusedArea={focusedArea}
         />
 
+        {/* Identify Panel */}
+        {interactionMode === "identify" && (
+          <div className="absolute top-3 left-14 z-[400] w-72 bg-white border border-gray-300 rounded-sm shadow-lg text-xs">
+            <form onSubmit={handleCoordinateSubmit} className="flex items-center space-x-1 p-2 border-b border-gray-200">
+              <input
+                type="text"
+                value={coordinateInput}
+                onChange={(e) => setCoordinateInput(e.target.value)}
+                placeholder="ละติจูด, ลองจิจูด"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="พิกัด"
+              />
+              <button type="submit" className="px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm flex-shrink-0">
+                ระบุ
+              </button>
+            </form>
+            {coordinateError ? (
+              <div className="p-2 text-red-600">{coordinateError}</div>
+            ) : !identified ? (
+              <div className="p-2 text-gray-500">คลิกบนแผนที่หรือพิมพ์พิกัดเพื่อดูพื้นที่</div>
+            ) : (
+              <div className="p-2 space-y-1">
+                <div className="text-[10px] text-gray-500">
+                  {identified.point[0].toFixed(5)}, {identified.point[1].toFixed(5)}
+                </div>
+                {identifiedRows.length === 0 ? (
+                  <div className="text-gray-500">จุดนี้ไม่อยู่ในเขตประเทศไทย</div>
+                ) : (
+                  <table className="w-full">
+                    <tbody>
+                      {identifiedRows.map((row) => (
+                        <tr key={row.label}>
+                          <td className="pr-2 py-0.5 text-gray-500 whitespace-nowrap align-top">{row.label}</td>
+                          <td className="py-0.5">
+                            <div className="font-medium text-gray-800">{row.unit!.nameTh}</div>
+                            <div className="text-[10px] text-gray-500">
+                              {row.unit!.nameEn}
+                              {row.showCode ? ` · ${row.unit!.code}` : ""}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Neighbors of an area */}
+        {neighborHighlight && (
+          <div className="absolute top-3 right-3 z-[400] w-64 bg-white border border-gray-300 rounded-sm shadow-lg text-xs">
+            <div className="flex items-center justify-between px-2 py-1.5 border-b border-gray-200">
+              <span className="font-medium text-gray-700 truncate">
+                พื้นที่ติดกับ{areaNamesByCode.get(neighborHighlight.code) || neighborHighlight.code}
+              </span>
+              <button
+                onClick={() => setNeighborHighlight(null)}
+                className="p-0.5 text-gray-400 hover:text-gray-600 flex-shrink-0"
+                title="ปิด"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            {neighborHighlight.neighbors.length === 0 ? (
+              <div className="p-2 text-gray-500">ไม่มีพื้นที่ที่มีเขตติดกัน</div>
+            ) : (
+              <>
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-200">
+                      <th className="text-left font-normal px-2 py-1">พื้นที่</th>
+                      <th className="text-right font-normal px-2 py-1">แนวเขตร่วม กม.</th>
+                    </tr>
+                  </thead>
+                </table>
+                <div className="max-h-60 overflow-y-auto">
+                  <table className="w-full">
+                    <tbody>
+                      {neighborHighlight.neighbors.map((neighbor) => (
+                        <tr key={neighbor.code} className="border-b border-gray-100">
+                          <td className="px-2 py-1 truncate">{areaNamesByCode.get(neighbor.code) || neighbor.code}</td>
+                          <td className="px-2 py-1 text-right">
+                            {neighbor.sharedBorderKm.toLocaleString("th-TH", { maximumFractionDigits: 1 })}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="p-2 border-t border-gray-200">
+                  <button
+                    onClick={() => {
+                      setAreaSelection(neighborHighlight.neighbors.map((neighbor) => neighbor.code));
+                      setNeighborHighlight(null);
+                    }}
+                    className="w-full px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm"
+                  >
+                    เลือกพื้นที่ข้างเคียง {neighborHighlight.neighbors.length} พื้นที่
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Selection Actions */}
+        {areaSelection.length > 0 && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[400] flex items-center space-x-1.5 bg-white border border-gray-300 rounded-sm shadow-lg px-2 py-1.5 text-xs">
+            <span className="text-gray-600 px-1 whitespace-nowrap">เลือก {areaSelection.length.toLocaleString()} พื้นที่</span>
+            <button
+              onClick={handlePaintSelection}
+              className="flex items-center space-x-1 px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm"
+            >
+              <span className="w-3 h-3 border border-gray-400 rounded-sm" style={{ backgroundColor: selectedColor }} />
+              <span>ลงสี</span>
+            </button>
+            <button
+              onClick={handleEraseSelection}
+              className="flex items-center space-x-1 px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm"
+            >
+              <Eraser className="h-3 w-3 text-gray-500" />
+              <span>ลบสี</span>
+            </button>
+            <button
+              onClick={handleToggleSelectionLock}
+              className="flex items-center space-x-1 px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm whitespace-nowrap"
+              title="พื้นที่ที่ล็อกจะคงสีเดิมเมื่อลงสีอัตโนมัติ"
+            >
+              {isSelectionLocked ? (
+                <LockOpen className="h-3 w-3 text-gray-500" />
+              ) : (
+                <Lock className="h-3 w-3 text-gray-500" />
+              )}
+              <span>{isSelectionLocked ? "ปลดล็อก" : "ล็อกสี"}</span>
+            </button>
+            {areaSelection.length === 1 && (
+              <button
+                onClick={() => handleShowNeighbors(areaSelection[0])}
+                className="flex items-center space-x-1 px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm whitespace-nowrap"
+              >
+                <span>พื้นที่ข้างเคียง</span>
+              </button>
+            )}
+            {selectionFilterLabel && (
+              <button
+                onClick={handleAddSelectionToFilter}
+                className="flex items-center space-x-1 px-2 py-1 border border-gray-300 hover:bg-gray-100 rounded-sm whitespace-nowrap"
+              >
+                <Filter className="h-3 w-3 text-gray-500" />
+                <span>{selectionFilterLabel}</span>
+              </button>
+            )}
+            <button
+              onClick={() => setAreaSelection([])}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="ยกเลิกการเลือก"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
+        {/* Explore Breadcrumb */}
+        {interactionMode === "explore" && (
+          <nav className="absolute top-3 left-14 z-[400] flex items-center bg-white/95 border border-gray-300 rounded-sm shadow-sm px-2 py-1 text-xs max-w-[calc(100%-4.5rem)] overflow-x-auto">
+            {exploreTrail.map((crumb, index) => {
+              const isLast = index === exploreTrail.length - 1;
+              return (
+                <React.Fragment key={index}>
+                  {index > 0 && <ChevronRight className="h-3 w-3 mx-0.5 text-gray-400 flex-shrink-0" />}
+                  <button
+                    onClick={crumb.onSelect}
+                    disabled={isLast}
+                    className={`whitespace-nowrap ${isLast ? "font-bold text-gray-800 cursor-default" : "text-blue-600 hover:underline"}`}
+                  >
+                    {crumb.label}
+                  </button>
+                </React.Fragment>
+              );
+            })}
+          </nav>
+        )}
+
+        {/* Image Export Dialog */}
+        {imageExportFormat && (
+          <ImageExportDialog
+            initialFormat={imageExportFormat}
+            hasLegend={legendEntries.length > 0}
+            onExport={handleImageExport}
+            onClose={() => setImageExportFormat(null)}
+          />
+        )}
+
+        {/* Print Layout Dialog */}
+        {printSnapshot && (
+          <PrintLayoutDialog
+            snapshot={printSnapshot}
+            legend={{ title: legend.title, entries: legendEntries, position: legend.position }}
+            onClose={() => setPrintSnapshot(null)}
+          />
+        )}
+
+        {/* CSV Import */}
+        {csvImport && (
+          <CSVImportDialog
+            fileName={csvImport.fileName}
+            source={csvImport.source}
+            purpose={csvImport.purpose}
+            index={areaNameIndex}
+            onImport={handleCSVMapped}
+            onClose={() => setCSVImport(null)}
+          />
+        )}
+
+        {/* Name Match Report */}
+        {nameMatch && (
+          <NameMatchDialog
+            matches={nameMatch.matches}
+            detectionSummary={nameMatch.detectionSummary}
+            index={areaNameIndex}
+            onApply={(resolved) => {
+              setNameMatch(null);
+              applyImportedRows(resolved);
+            }}
+            onClose={() => setNameMatch(null)}
+          />
+        )}
+
         {/* Loading Indicator */}
         {isLoading && (
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white border-2 border-gray-800 rounded px-4 py-2 flex items-center space-x-2 z-30">
@@ -0,0 +1,324 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import {
+  CSVDelimiter,
+  CSVEncoding,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  decodeCSV,
+  detectDelimiter,
+  detectEncoding,
+  parseCSV,
+} from '@/lib/csv';
+import { MapLevel } from '@/lib/map-config';
+import {
+  AreaNameIndex,
+  ColumnDetection,
+  RowMatch,
+  detectColumns,
+  matchRows,
+} from '@/lib/name-import';
+import { XLSXTable } from '@/lib/xlsx';
+
+export type CSVImportPurpose = 'colors' | 'values';
+
+// Raw CSV bytes are decoded here so the user can switch encoding; workbooks arrive already read
+export type CSVImportSource =
+  | { kind: 'csv'; bytes: Uint8Array }
+  | { kind: 'xlsx'; sheets: XLSXTable[] };
+
+interface CSVImportDialogProps {
+  fileName: string;
+  source: CSVImportSource;
+  purpose: CSVImportPurpose;
+  index: AreaNameIndex;
+  onImport: (matches: RowMatch[], mapping: ColumnDetection, header?: string[]) => void;
+  onClose: () => void;
+}
+
+type ColumnKey = 'codeColumn' | 'nameColumn' | 'districtColumn' | 'provinceColumn' | 'colorColumn' | 'valueColumn';
+
+const COLUMN_ROLES: { key: ColumnKey; label: string }[] = [
+  { key: 'codeColumn', label: 'รหัสพื้นที่' },
+  { key: 'nameColumn', label: 'ชื่อพื้นที่' },
+  { key: 'districtColumn', label: 'ชื่ออำเภอ (ช่วยแยกชื่อซ้ำ)' },
+  { key: 'provinceColumn', label: 'ชื่อจังหวัด (ช่วยแยกชื่อซ้ำ)' },
+  { key: 'colorColumn', label: 'สี' },
+  { key: 'valueColumn', label: 'ค่าข้อมูล' },
+];
+
+const NAME_LEVELS: { value: MapLevel; label: string }[] = [
+  { value: 'provinces', label: 'จังหวัด' },
+  { value: 'districts', label: 'อำเภอ' },
+  { value: 'subdistricts', label: 'ตำบล' },
+  { value: 'region_royin', label: 'ภาค (ราชบัณฑิตยสภา)' },
+  { value: 'region_nesdb', label: 'ภาค (สศช.)' },
+];
+
+const PREVIEW_ROWS = 8;
+const MAX_LISTED_ISSUES = 100;
+
+export default function CSVImportDialog({
+  fileName,
+  source,
+  purpose,
+  index,
+  onImport,
+  onClose,
+}: CSVImportDialogProps) {
+  const [encoding, setEncoding] = useState<CSVEncoding>(() =>
+    source.kind === 'csv' ? detectEncoding(source.bytes) : 'utf-8'
+  );
+  const text = useMemo(
+    () => (source.kind === 'csv' ? decodeCSV(source.bytes, encoding) : ''),
+    [source, encoding]
+  );
+
+  const [delimiter, setDelimiter] = useState<CSVDelimiter>(() => detectDelimiter(text));
+  // First sheet with any data
+  const [sheetIndex, setSheetIndex] = useState(() =>
+    source.kind === 'xlsx' ? Math.max(0, source.sheets.findIndex((sheet) => sheet.rows.length > 0)) : 0
+  );
+  const rows = useMemo(
+    () => (source.kind === 'csv' ? parseCSV(text, delimiter) : source.sheets[sheetIndex]?.rows || []),
+    [source, text, delimiter, sheetIndex]
+  );
+
+  // Detected mapping; the user can override every column
+  const [mapping, setMapping] = useState<ColumnDetection>(() => detectColumns(rows, index));
+
+  // Re-detect whenever the table itself changes (encoding, delimiter or sheet switched)
+  useEffect(() => {
+    const detected = detectColumns(rows, index);
+    setMapping(
+      purpose === 'values'
+        ? { ...detected, colorColumn: null }
+        : { ...detected, valueColumn: null }
+    );
+  }, [rows, index, purpose]);
+
+  const matches = useMemo(() => matchRows(rows, mapping, index), [rows, mapping, index]);
+
+  const columnCount = Math.max(0, ...rows.slice(0, PREVIEW_ROWS + 1).map((row) => row.length));
+  const header = mapping.hasHeader ? rows[0] : undefined;
+  const previewRows = rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  const columnLabel = (column: number) =>
+    header?.[column]?.trim() || `คอลัมน์ ${column + 1}`;
+
+  const roleOfColumn = (column: number) =>
+    COLUMN_ROLES.find((role) => mapping[role.key] === column)?.label;
+
+  const updateColumn = (key: ColumnKey, value: string) => {
+    const column = value === '' ? null : Number(value);
+    setMapping((prev) => {
+      const next = { ...prev, [key]: column };
+      // Picking a name column without a level defaults to the finest level
+      if (key === 'nameColumn' && column !== null && !prev.nameLevel) {
+        next.nameLevel = 'subdistricts';
+      }
+      return next;
+    });
+  };
+
+  const counts = {
+    matched: matches.filter((match) => match.status === 'matched').length,
+    ambiguous: matches.filter((match) => match.status === 'ambiguous').length,
+    unmatched: matches.filter((match) => match.status === 'unmatched').length,
+    invalid: matches.filter((match) => match.status === 'invalid').length,
+  };
+  const rowsWithIssues = matches.filter((match) => match.issues.length > 0);
+  const hasTarget = mapping.codeColumn !== null || mapping.nameColumn !== null;
+  const hasPayload = mapping.colorColumn !== null || mapping.valueColumn !== null;
+
+  const selectClassName =
+    'px-1.5 py-1 border border-gray-300 bg-white text-xs rounded-sm focus:outline-none focus:border-blue-400';
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[1000]" onMouseDown={onClose}>
+      <div
+        className="bg-white border-2 border-gray-800 rounded-sm shadow-lg w-[820px] max-w-[95vw] max-h-[95vh] flex flex-col"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-1.5 min-w-0">
+            <FileSpreadsheet className="h-4 w-4 text-gray-600 flex-shrink-0" />
+            <h2 className="text-sm font-bold text-gray-800 truncate">
+              {purpose === 'values' ? 'นำเข้าค่าข้อมูล' : 'นำเข้าสี'}: {fileName}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="ปิด">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* File format */}
+          <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-200 text-xs text-gray-700">
+            {source.kind === 'csv' ? (
+              <>
+                <label className="flex items-center space-x-1">
+                  <span>การเข้ารหัส:</span>
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as CSVEncoding)}
+                    className={selectClassName}
+                  >
+                    {CSV_ENCODINGS.map((item) => (
+                      <option key={item.value} value={item.value}>{item.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <span>ตัวคั่น:</span>
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value as CSVDelimiter)}
+                    className={selectClassName}
+                  >
+                    {CSV_DELIMITERS.map((item) => (
+                      <option key={item.value} value={item.value}>{item.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : (
+              <label className="flex items-center space-x-1">
+                <span>ชีต:</span>
+                <select
+                  value={sheetIndex}
+                  onChange={(e) => setSheetIndex(Number(e.target.value))}
+                  className={selectClassName}
+                >
+                  {source.sheets.map((sheet, index) => (
+                    <option key={index} value={index}>{sheet.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center space-x-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => setMapping((prev) => ({ ...prev, hasHeader: e.target.checked }))}
+              />
+              <span>แถวแรกเป็นหัวตาราง</span>
+            </label>
+            <span className="text-gray-500">{rows.length.toLocaleString()} แถว</span>
+          </div>
+
+          {/* Column mapping */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 px-3 py-2 border-b border-gray-200 text-xs text-gray-700">
+            {COLUMN_ROLES.map((role) => (
+              <label key={role.key} className="flex flex-col">
+                <span className="mb-0.5">{role.label}</span>
+                <select
+                  value={mapping[role.key] ?? ''}
+                  onChange={(e) => updateColumn(role.key, e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">— ไม่มี —</option>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <option key={column} value={column}>{columnLabel(column)}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            {mapping.nameColumn !== null && (
+              <label className="flex flex-col">
+                <span className="mb-0.5">ระดับของชื่อพื้นที่</span>
+                <select
+                  value={mapping.nameLevel || 'subdistricts'}
+                  onChange={(e) => setMapping((prev) => ({ ...prev, nameLevel: e.target.value as MapLevel }))}
+                  className={selectClassName}
+                >
+                  {NAME_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>{level.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="px-3 py-2 border-b border-gray-200 overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <th key={column} className="border border-gray-200 px-2 py-1 text-left bg-gray-50 font-medium whitespace-nowrap">
+                      <div>{columnLabel(column)}</div>
+                      <div className="text-[10px] font-normal text-blue-600">{roleOfColumn(column) || ' '}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <td key={column} className="border border-gray-200 px-2 py-1 whitespace-nowrap max-w-[200px] truncate">
+                        {row[column] || ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Row report */}
+          <div className="px-3 py-2 text-xs">
+            <div className="flex flex-wrap gap-x-3 mb-1">
+              <span className="text-green-700">พร้อมนำเข้า {counts.matched} แถว</span>
+              {counts.ambiguous > 0 && <span className="text-amber-700">ชื่อซ้ำ {counts.ambiguous} แถว</span>}
+              {counts.unmatched > 0 && <span className="text-red-700">ไม่พบพื้นที่ {counts.unmatched} แถว</span>}
+              {counts.invalid > 0 && <span className="text-red-700">ข้อมูลไม่ถูกต้อง {counts.invalid} แถว</span>}
+            </div>
+            {rowsWithIssues.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto text-gray-600 space-y-0.5">
+                {rowsWithIssues.slice(0, MAX_LISTED_ISSUES).map((match) => (
+                  <li key={match.row}>
+                    แถวที่ {match.row + 1}: {match.issues.join(', ')}
+                  </li>
+                ))}
+                {rowsWithIssues.length > MAX_LISTED_ISSUES && (
+                  <li className="text-gray-400">และอีก {rowsWithIssues.length - MAX_LISTED_ISSUES} แถว</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-3 py-2 border-t border-gray-200">
+          <span className="text-xs text-gray-500">
+            {!hasTarget
+              ? 'เลือกคอลัมน์รหัสหรือชื่อพื้นที่'
+              : !hasPayload
+                ? 'เลือกคอลัมน์สีหรือค่าข้อมูล'
+                : counts.ambiguous + counts.unmatched > 0
+                  ? 'แถวที่จับคู่ไม่ได้จะให้ตรวจสอบในขั้นถัดไป'
+                  : ''}
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs border border-gray-300 bg-white hover:bg-gray-100 rounded-sm"
+            >
+              ยกเลิก
+            </button>
+            <button
+              onClick={() => onImport(matches, mapping, header)}
+              disabled={!hasTarget || !hasPayload || counts.matched + counts.ambiguous + counts.unmatched === 0}
+              className="px-3 py-1.5 text-xs border border-blue-500 bg-blue-500 text-white hover:bg-blue-600 rounded-sm disabled:opacity-50"
+            >
+              นำเข้า
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { BarChart3, ChevronDown, Trash2, Upload } from 'lucide-react';
+import {
+  ChoroplethSettings,
+  ClassificationMethod,
+  ClassificationResult,
+  CLASSIFICATION_METHODS,
+  COLOR_RAMPS,
+  MAX_CLASS_COUNT,
+  MIN_CLASS_COUNT,
+  formatClassRange,
+  sampleColorRamp,
+} from '@/lib/classification';
+
+interface ChoroplethPanelProps {
+  valueCount: number;
+  settings: ChoroplethSettings;
+  result: ClassificationResult;
+  onSettingsChange: (settings: ChoroplethSettings) => void;
+  onImportValues: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onClearValues: () => void;
+}
+
+const parseBreaks = (text: string): number[] =>
+  text
+    .split(/[,\s]+/)
+    .filter((part) => part !== '')
+    .map((part) => Number(part))
+    .filter((value) => Number.isFinite(value));
+
+export default function ChoroplethPanel({
+  valueCount,
+  settings,
+  result,
+  onSettingsChange,
+  onImportValues,
+  onClearValues,
+}: ChoroplethPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [breaksText, setBreaksText] = useState(settings.manualBreaks.join(', '));
+
+  // Keep the text box in sync when settings are replaced (e.g. config import)
+  useEffect(() => {
+    setBreaksText(settings.manualBreaks.join(', '));
+  }, [settings.manualBreaks]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest('.choropleth-dropdown')) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const updateSettings = (changes: Partial<ChoroplethSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const isActive = valueCount > 0;
+
+  return (
+    <div className="relative choropleth-dropdown">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-1 sm:space-x-1.5 px-2 sm:px-2.5 py-1.5 border transition-all duration-200 rounded-sm flex-shrink-0 ${isActive
+          ? 'border-purple-400 bg-purple-50 hover:bg-purple-100'
+          : 'border-gray-300 bg-white hover:bg-purple-50 hover:border-purple-300'
+          }`}
+        title="ลงสีตามข้อมูล"
+      >
+        <BarChart3 className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-purple-600" />
+        <span className="text-xs font-medium text-purple-600 hidden sm:inline">ข้อมูล</span>
+        <ChevronDown
+          className={`h-3 w-3 sm:h-3.5 sm:w-3.5 text-purple-600 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 bg-white border border-gray-300 rounded-sm shadow-lg w-72 z-500">
+          {/* Import values */}
+          <div className="p-2 border-b border-gray-200 space-y-1">
+            <label className="w-full px-2 py-1.5 text-xs border border-gray-300 hover:bg-gray-100 flex items-center space-x-2 cursor-pointer rounded-sm">
+              <Upload className="h-3 w-3 text-gray-500" />
+              <span>นำเข้าค่าข้อมูล (CSV/Excel/JSON)</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.json"
+                onChange={onImportValues}
+                className="hidden"
+              />
+            </label>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>{isActive ? `${valueCount} พื้นที่มีค่าข้อมูล` : 'ยังไม่มีข้อมูล'}</span>
+              {isActive && (
+                <button
+                  onClick={onClearValues}
+                  className="flex items-center space-x-1 text-red-600 hover:text-red-700"
+                  title="ล้างข้อมูลทั้งหมด"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  <span>ล้างข้อมูล</span>
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Classification */}
+          <div className="p-2 border-b border-gray-200 space-y-2">
+            <label className="flex items-center justify-between text-xs text-gray-700">
+              <span>การจำแนก:</span>
+              <select
+                value={settings.method}
+                onChange={(e) => updateSettings({ method: e.target.value as ClassificationMethod })}
+                className="ml-2 px-1.5 py-1 border border-gray-300 bg-white text-xs rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                {CLASSIFICATION_METHODS.map((method) => (
+                  <option key={method.value} value={method.value}>
+                    {method.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {settings.method === 'manual' ? (
+              <label className="block text-xs text-gray-700">
+                <span>จุดแบ่งช่วง (คั่นด้วยจุลภาค):</span>
+                <input
+                  type="text"
+                  value={breaksText}
+                  onChange={(e) => setBreaksText(e.target.value)}
+                  onBlur={() => updateSettings({ manualBreaks: parseBreaks(breaksText) })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      updateSettings({ manualBreaks: parseBreaks(breaksText) });
+                    }
+                  }}
+                  placeholder="เช่น 1000, 5000, 10000"
+                  className="mt-1 w-full px-1.5 py-1 border border-gray-300 text-xs rounded-sm focus:outline-none focus:border-blue-400"
+                />
+              </label>
+            ) : (
+              <label className="flex items-center justify-between text-xs text-gray-700">
+                <span>จำนวนช่วง:</span>
+                <input
+                  type="number"
+                  min={MIN_CLASS_COUNT}
+                  max={MAX_CLASS_COUNT}
+                  value={settings.classCount}
+                  onChange={(e) => {
+                    const classCount = Math.min(
+                      MAX_CLASS_COUNT,
+                      Math.max(MIN_CLASS_COUNT, Number(e.target.value) || MIN_CLASS_COUNT)
+                    );
+                    updateSettings({ classCount });
+                  }}
+                  className="ml-2 w-16 px-1.5 py-1 border border-gray-300 text-xs rounded-sm focus:outline-none focus:border-blue-400"
+                />
+              </label>
+            )}
+          </div>
+
+          {/* Color ramp */}
+          <div className="p-2 border-b border-gray-200 space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-700">
+              <span>ชุดสี:</span>
+              <label className="flex items-center space-x-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.reverseRamp}
+                  onChange={(e) => updateSettings({ reverseRamp: e.target.checked })}
+                />
+                <span>กลับสี</span>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {COLOR_RAMPS.map((ramp) => (
+                <button
+                  key={ramp.id}
+                  onClick={() => updateSettings({ rampId: ramp.id })}
+                  className={`flex flex-col items-stretch p-1 border rounded-sm ${settings.rampId === ramp.id
+                    ? 'border-blue-500 ring-1 ring-blue-400'
+                    : 'border-gray-200 hover:border-gray-400'
+                    }`}
+                  title={`${ramp.name} (${ramp.type === 'sequential' ? 'ไล่ระดับ' : 'สองขั้ว'})`}
+                >
+                  <div className="flex h-3">
+                    {sampleColorRamp(ramp, 5, settings.reverseRamp).map((color, idx) => (
+                      <div key={idx} className="flex-1" style={{ backgroundColor: color }} />
+                    ))}
+                  </div>
+                  <span className="text-[10px] text-gray-600 mt-0.5">{ramp.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Class preview */}
+          <div className="p-2 max-h-40 overflow-y-auto">
+            {isActive && result.colors.length > 0 ? (
+              result.colors.map((color, idx) => (
+                <div key={idx} className="flex items-center space-x-2 py-0.5 text-xs">
+                  <div
+                    className="w-4 h-3 border border-gray-400 rounded-sm flex-shrink-0"
+                    style={{ backgroundColor: color }}
+                  />
+                  <span className="text-gray-700">{formatClassRange(result, idx)}</span>
+                </div>
+              ))
+            ) : (
+              <div className="text-xs text-gray-500">นำเข้าไฟล์ค่าข้อมูลเพื่อแสดงช่วงข้อมูล</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Image as ImageIcon, X } from 'lucide-react';
+import { ImageFormat, PNG_SCALES } from '@/lib/map-export';
+
+export interface ImageExportSettings {
+  format: ImageFormat;
+  scale: number;
+  includeTitle: boolean;
+  title: string;
+  includeLegend: boolean;
+}
+
+interface ImageExportDialogProps {
+  initialFormat: ImageFormat;
+  hasLegend: boolean;
+  onExport: (settings: ImageExportSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ImageExportDialog({
+  initialFormat,
+  hasLegend,
+  onExport,
+  onClose,
+}: ImageExportDialogProps) {
+  const [settings, setSettings] = useState<ImageExportSettings>({
+    format: initialFormat,
+    scale: 2,
+    includeTitle: false,
+    title: '',
+    includeLegend: hasLegend,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const updateSettings = (changes: Partial<ImageExportSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(settings);
+      onClose();
+    } catch (error) {
+      console.error('Image export error:', error);
+      alert('เกิดข้อผิดพลาดในการส่งออกภาพ');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[1000]" onMouseDown={onClose}>
+      <div
+        className="bg-white border-2 border-gray-800 rounded-sm shadow-lg w-80 max-w-[90vw]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-1.5">
+            <ImageIcon className="h-4 w-4 text-gray-600" />
+            <h2 className="text-sm font-bold text-gray-800">ส่งออกภาพแผนที่</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="ปิด">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="p-3 space-y-3 text-sm">
+          {/* Format */}
+          <div className="flex items-center space-x-4">
+            <span className="font-medium text-gray-700">รูปแบบ:</span>
+            {(['png', 'svg'] as ImageFormat[]).map((format) => (
+              <label key={format} className="flex items-center space-x-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="image-format"
+                  checked={settings.format === format}
+                  onChange={() => updateSettings({ format })}
+                />
+                <span>{format.toUpperCase()}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Resolution (PNG only; SVG is resolution independent) */}
+          {settings.format === 'png' && (
+            <label className="flex items-center justify-between">
+              <span className="font-medium text-gray-700">ความละเอียด:</span>
+              <select
+                value={settings.scale}
+                onChange={(e) => updateSettings({ scale: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 bg-white text-sm rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                {PNG_SCALES.map((scale) => (
+                  <option key={scale.value} value={scale.value}>
+                    {scale.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {/* Title */}
+          <div className="space-y-1">
+            <label className="flex items-center space-x-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.includeTitle}
+                onChange={(e) => updateSettings({ includeTitle: e.target.checked })}
+              />
+              <span>ใส่ชื่อแผนที่</span>
+            </label>
+            {settings.includeTitle && (
+              <input
+                type="text"
+                value={settings.title}
+                onChange={(e) => updateSettings({ title: e.target.value })}
+                placeholder="ชื่อแผนที่"
+                className="w-full px-2 py-1 border border-gray-300 text-sm rounded-sm focus:outline-none focus:border-blue-400"
+              />
+            )}
+          </div>
+
+          {/* Legend */}
+          <label className={`flex items-center space-x-1.5 ${hasLegend ? 'cursor-pointer' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={settings.includeLegend && hasLegend}
+              disabled={!hasLegend}
+              onChange={(e) => updateSettings({ includeLegend: e.target.checked })}
+            />
+            <span>ใส่คำอธิบายสัญลักษณ์</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-2 px-3 py-2 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-xs border border-gray-300 bg-white hover:bg-gray-100 rounded-sm"
+          >
+            ยกเลิก
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-3 py-1.5 text-xs border border-blue-500 bg-blue-500 text-white hover:bg-blue-600 rounded-sm disabled:opacity-50"
+          >
+            {isExporting ? 'กำลังส่งออก...' : 'ส่งออก'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { GripHorizontal } from 'lucide-react';
+import { LegendEntry, LegendPosition } from '@/lib/legend';
+
+interface MapLegendProps {
+  title: string;
+  entries: LegendEntry[];
+  onTitleChange: (title: string) => void;
+  onLabelChange: (color: string, label: string) => void;
+  onPositionChange: (position: LegendPosition) => void;
+}
+
+export default function MapLegend({
+  title,
+  entries,
+  onTitleChange,
+  onLabelChange,
+  onPositionChange,
+}: MapLegendProps) {
+  const legendRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Drag by the handle; on release the legend snaps to the nearest map corner
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragStartRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current || !legendRef.current) return;
+    const dx = e.clientX - dragStartRef.current.x;
+    const dy = e.clientY - dragStartRef.current.y;
+    legendRef.current.style.transform = `translate(${dx}px, ${dy}px)`;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current || !legendRef.current) return;
+    dragStartRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    const mapContainer = legendRef.current.closest('.leaflet-container');
+    const legendRect = legendRef.current.getBoundingClientRect();
+    legendRef.current.style.transform = '';
+    if (!mapContainer) return;
+
+    const mapRect = mapContainer.getBoundingClientRect();
+    const centerX = legendRect.left + legendRect.width / 2;
+    const centerY = legendRect.top + legendRect.height / 2;
+    const vertical = centerY < mapRect.top + mapRect.height / 2 ? 'top' : 'bottom';
+    const horizontal = centerX < mapRect.left + mapRect.width / 2 ? 'left' : 'right';
+    onPositionChange(`${vertical}${horizontal}` as LegendPosition);
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div
+      ref={legendRef}
+      className="map-legend bg-white border-2 border-gray-800 rounded-sm shadow-md text-xs max-w-[260px]"
+    >
+      <div
+        className="flex items-center justify-center py-0.5 border-b border-gray-200 cursor-move touch-none text-gray-400 hover:text-gray-600"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        title="ลากเพื่อย้ายไปมุมอื่น"
+      >
+        <GripHorizontal className="h-3 w-3" />
+      </div>
+      <div className="px-2 py-1.5 space-y-1">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => onTitleChange(e.target.value)}
+          placeholder="ชื่อคำอธิบายสัญลักษณ์"
+          className="w-full font-bold text-gray-800 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-400 focus:outline-none"
+        />
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {entries.map((entry) => (
+            <div key={entry.color} className="flex items-center space-x-1.5">
+              <div
+                className="w-4 h-3 border border-gray-500 flex-shrink-0"
+                style={{ backgroundColor: entry.color }}
+              />
+              <div className="min-w-0 flex-1">
+                <input
+                  type="text"
+                  value={entry.label}
+                  onChange={(e) => onLabelChange(entry.color, e.target.value)}
+                  placeholder={entry.range || 'ใส่คำอธิบาย'}
+                  className="w-full text-gray-700 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-400 focus:outline-none"
+                  title={`${entry.count} พื้นที่`}
+                />
+                {entry.range && entry.label && (
+                  <div className="text-[10px] text-gray-500 leading-tight">{entry.range}</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
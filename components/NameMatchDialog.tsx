@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { AreaNameIndex, RowMatch } from '@/lib/name-import';
+
+interface NameMatchDialogProps {
+  matches: RowMatch[];
+  detectionSummary: string[];
+  index: AreaNameIndex;
+  onApply: (resolved: RowMatch[]) => void;
+  onClose: () => void;
+}
+
+export default function NameMatchDialog({
+  matches,
+  detectionSummary,
+  index,
+  onApply,
+  onClose,
+}: NameMatchDialogProps) {
+  // Chosen code per unresolved row ('' = skip)
+  const [choices, setChoices] = useState<Map<number, string>>(new Map());
+
+  // Invalid rows have nothing to import and were already reported by the import dialog
+  const unresolved = useMemo(
+    () => matches.filter((match) => match.status === 'ambiguous' || match.status === 'unmatched'),
+    [matches]
+  );
+  const matchedCount = matches.filter((match) => match.status === 'matched').length;
+  const ambiguousCount = unresolved.filter((match) => match.status === 'ambiguous').length;
+  const chosenCount = Array.from(choices.values()).filter(Boolean).length;
+
+  const handleApply = () => {
+    const resolved: RowMatch[] = [];
+    matches.forEach((match) => {
+      if (match.status === 'matched') {
+        resolved.push(match);
+        return;
+      }
+      const code = choices.get(match.row);
+      if (code) resolved.push({ ...match, code, status: 'matched' });
+    });
+    onApply(resolved);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[1000]" onMouseDown={onClose}>
+      <div
+        className="bg-white border-2 border-gray-800 rounded-sm shadow-lg w-[560px] max-w-[95vw] max-h-[90vh] flex flex-col"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-1.5">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <h2 className="text-sm font-bold text-gray-800">ตรวจสอบการจับคู่ชื่อพื้นที่</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="ปิด">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="px-3 py-2 border-b border-gray-200 text-xs text-gray-600 space-y-1">
+          <div className="flex flex-wrap gap-x-3">
+            <span className="text-green-700">จับคู่ได้ {matchedCount} แถว</span>
+            <span className="text-amber-700">ชื่อซ้ำ {ambiguousCount} แถว</span>
+            <span className="text-red-700">ไม่พบ {unresolved.length - ambiguousCount} แถว</span>
+          </div>
+          <div className="text-gray-500">คอลัมน์ที่ตรวจพบ: {detectionSummary.join(' · ')}</div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {unresolved.map((match) => (
+            <div key={match.row} className="flex items-center px-3 py-1.5 space-x-2 border-b border-gray-100 text-xs">
+              {match.color ? (
+                <div
+                  className="w-4 h-4 border border-gray-400 rounded-sm flex-shrink-0"
+                  style={{ backgroundColor: match.color }}
+                  title={match.color}
+                />
+              ) : (
+                <div className="w-12 flex-shrink-0 text-right text-gray-700">{match.value?.toLocaleString()}</div>
+              )}
+              <div className="w-36 min-w-0 flex-shrink-0">
+                <div className="truncate font-medium text-gray-800" title={match.text}>{match.text}</div>
+                <div className={match.status === 'ambiguous' ? 'text-amber-600' : 'text-red-600'}>
+                  แถวที่ {match.row + 1} · {match.status === 'ambiguous' ? 'ชื่อซ้ำกัน' : 'ไม่พบชื่อนี้'}
+                </div>
+              </div>
+              <select
+                value={choices.get(match.row) || ''}
+                onChange={(e) => {
+                  const next = new Map(choices);
+                  next.set(match.row, e.target.value);
+                  setChoices(next);
+                }}
+                className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 bg-white text-xs rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                <option value="">— ข้ามแถวนี้ —</option>
+                {match.candidates.map((candidate) => (
+                  <option key={candidate.code} value={candidate.code}>
+                    {index.describe(candidate)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between px-3 py-2 border-t border-gray-200">
+          <span className="text-xs text-gray-500">
+            จะนำเข้า {matchedCount + chosenCount} พื้นที่
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs border border-gray-300 bg-white hover:bg-gray-100 rounded-sm"
+            >
+              ยกเลิก
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={matchedCount + chosenCount === 0}
+              className="px-3 py-1.5 text-xs border border-blue-500 bg-blue-500 text-white hover:bg-blue-600 rounded-sm disabled:opacity-50"
+            >
+              นำเข้า
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Printer, X } from 'lucide-react';
+import { LegendLayout, MapSnapshot } from '@/lib/map-export';
+import {
+  DEFAULT_PRINT_LAYOUT,
+  PAGE_SIZES,
+  PRINT_DPIS,
+  PageOrientation,
+  PageSize,
+  PrintLayoutSettings,
+  exportPrintLayoutPDF,
+  renderPrintLayoutSVG,
+} from '@/lib/print-layout';
+
+interface PrintLayoutDialogProps {
+  snapshot: MapSnapshot;
+  legend?: LegendLayout;
+  onClose: () => void;
+}
+
+export default function PrintLayoutDialog({
+  snapshot,
+  legend,
+  onClose,
+}: PrintLayoutDialogProps) {
+  const [settings, setSettings] = useState<PrintLayoutSettings>({
+    ...DEFAULT_PRINT_LAYOUT,
+    title: legend?.title || '',
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const updateSettings = (changes: Partial<PrintLayoutSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const previewSVG = useMemo(
+    () => renderPrintLayoutSVG(snapshot, settings, legend),
+    [snapshot, settings, legend]
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportPrintLayoutPDF(snapshot, settings, legend);
+      onClose();
+    } catch (error) {
+      console.error('PDF export error:', error);
+      alert('เกิดข้อผิดพลาดในการสร้างไฟล์ PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const textFields: { key: 'title' | 'subtitle' | 'sourceNote'; label: string }[] = [
+    { key: 'title', label: 'ชื่อแผนที่' },
+    { key: 'subtitle', label: 'คำบรรยายรอง' },
+    { key: 'sourceNote', label: 'ที่มาของข้อมูล' },
+  ];
+
+  const toggles: { key: 'showLegend' | 'showScaleBar' | 'showNorthArrow' | 'showDate'; label: string; disabled?: boolean }[] = [
+    { key: 'showLegend', label: 'คำอธิบายสัญลักษณ์', disabled: !legend || legend.entries.length === 0 },
+    { key: 'showScaleBar', label: 'มาตราส่วน' },
+    { key: 'showNorthArrow', label: 'ทิศเหนือ' },
+    { key: 'showDate', label: 'วันที่' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[1000]" onMouseDown={onClose}>
+      <div
+        className="bg-white border-2 border-gray-800 rounded-sm shadow-lg w-[900px] max-w-[95vw] max-h-[95vh] flex flex-col"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-1.5">
+            <Printer className="h-4 w-4 text-gray-600" />
+            <h2 className="text-sm font-bold text-gray-800">จัดหน้าพิมพ์ / PDF</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="ปิด">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row min-h-0 flex-1 overflow-hidden">
+          {/* Settings */}
+          <div className="md:w-64 p-3 space-y-3 text-sm border-b md:border-b-0 md:border-r border-gray-200 overflow-y-auto">
+            <div className="flex items-center space-x-2">
+              <select
+                value={settings.pageSize}
+                onChange={(e) => updateSettings({ pageSize: e.target.value as PageSize })}
+                className="flex-1 px-2 py-1 border border-gray-300 bg-white text-sm rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                {(Object.keys(PAGE_SIZES) as PageSize[]).map((size) => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+              <select
+                value={settings.orientation}
+                onChange={(e) => updateSettings({ orientation: e.target.value as PageOrientation })}
+                className="flex-1 px-2 py-1 border border-gray-300 bg-white text-sm rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                <option value="landscape">แนวนอน</option>
+                <option value="portrait">แนวตั้ง</option>
+              </select>
+            </div>
+
+            {textFields.map((field) => (
+              <label key={field.key} className="block">
+                <span className="text-xs font-medium text-gray-700">{field.label}</span>
+                <input
+                  type="text"
+                  value={settings[field.key]}
+                  onChange={(e) => updateSettings({ [field.key]: e.target.value })}
+                  className="mt-0.5 w-full px-2 py-1 border border-gray-300 text-sm rounded-sm focus:outline-none focus:border-blue-400"
+                />
+              </label>
+            ))}
+
+            <div className="space-y-1">
+              {toggles.map((toggle) => (
+                <label
+                  key={toggle.key}
+                  className={`flex items-center space-x-1.5 ${toggle.disabled ? 'text-gray-400' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={settings[toggle.key] && !toggle.disabled}
+                    disabled={toggle.disabled}
+                    onChange={(e) => updateSettings({ [toggle.key]: e.target.checked })}
+                  />
+                  <span>{toggle.label}</span>
+                </label>
+              ))}
+            </div>
+
+            <label className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">ความละเอียด:</span>
+              <select
+                value={settings.dpi}
+                onChange={(e) => updateSettings({ dpi: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 bg-white text-sm rounded-sm focus:outline-none focus:border-blue-400"
+              >
+                {PRINT_DPIS.map((dpi) => (
+                  <option key={dpi} value={dpi}>{dpi} DPI</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 p-3 bg-gray-100 overflow-auto flex items-center justify-center">
+            <div
+              className="bg-white shadow-md w-full max-w-[600px] [&>svg]:w-full [&>svg]:h-auto"
+              dangerouslySetInnerHTML={{ __html: previewSVG }}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 px-3 py-2 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-xs border border-gray-300 bg-white hover:bg-gray-100 rounded-sm"
+          >
+            ยกเลิก
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-3 py-1.5 text-xs border border-blue-500 bg-blue-500 text-white hover:bg-blue-600 rounded-sm disabled:opacity-50"
+          >
+            {isExporting ? 'กำลังสร้าง PDF...' : 'ดาวน์โหลด PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronDown, Copy, FolderOpen, Map as MapIcon, Pencil, Plus, Trash2 } from 'lucide-react';
+import { MapProject } from '@/lib/projects';
+
+interface ProjectManagerProps {
+  projects: MapProject[];
+  activeProjectId: string | null;
+  isSaved: boolean;
+  onCreate: () => void;
+  onSwitch: (id: string) => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (time: number): string =>
+  new Date(time).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function ProjectManager({
+  projects,
+  activeProjectId,
+  isSaved,
+  onCreate,
+  onSwitch,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest('.project-dropdown')) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const activeProject = projects.find((project) => project.id === activeProjectId);
+
+  return (
+    <div className="relative project-dropdown min-w-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 sm:space-x-1.5 px-2 sm:px-2.5 py-1.5 border border-gray-300 bg-white hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 rounded-sm max-w-[220px]"
+        title="จัดการโปรเจกต์"
+      >
+        <FolderOpen className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-gray-600 flex-shrink-0" />
+        <span className="text-xs font-medium text-gray-700 truncate">
+          {activeProject?.name || 'โปรเจกต์'}
+          {!isSaved && ' *'}
+        </span>
+        <ChevronDown
+          className={`h-3 w-3 sm:h-3.5 sm:w-3.5 text-gray-600 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-1 bg-white border border-gray-300 rounded-sm shadow-lg w-80 max-w-[90vw] z-500">
+          <div className="p-2 border-b border-gray-200">
+            <button
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="w-full px-2 py-1.5 text-xs border border-gray-300 hover:bg-gray-100 flex items-center space-x-2 rounded-sm"
+            >
+              <Plus className="h-3 w-3 text-gray-500" />
+              <span>สร้างโปรเจกต์ใหม่</span>
+            </button>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto py-1">
+            {projects.length > 0 ? (
+              projects.map((project) => {
+                const isActive = project.id === activeProjectId;
+                return (
+                  <div
+                    key={project.id}
+                    className={`flex items-center px-2 py-1.5 space-x-2 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-100'}`}
+                  >
+                    <button
+                      onClick={() => {
+                        if (!isActive) onSwitch(project.id);
+                        setIsOpen(false);
+                      }}
+                      className="flex items-center space-x-2 min-w-0 flex-1 text-left"
+                      title={isActive ? 'โปรเจกต์ที่เปิดอยู่' : 'เปิดโปรเจกต์นี้'}
+                    >
+                      {project.thumbnail ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={project.thumbnail}
+                          alt=""
+                          className="w-14 h-10 object-cover border border-gray-200 rounded-sm flex-shrink-0 bg-white"
+                        />
+                      ) : (
+                        <div className="w-14 h-10 border border-gray-200 rounded-sm flex-shrink-0 bg-gray-50 flex items-center justify-center">
+                          <MapIcon className="h-4 w-4 text-gray-300" />
+                        </div>
+                      )}
+                      <div className="min-w-0">
+                        <div className={`text-xs truncate ${isActive ? 'font-bold text-blue-700' : 'font-medium text-gray-800'}`}>
+                          {project.name}
+                        </div>
+                        {project.repair ? (
+                          <div
+                            className="text-[10px] text-red-600 flex items-center space-x-1"
+                            title={project.repair.errors.map((error) => `${error.field}: ${error.message}`).join('\n')}
+                          >
+                            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                            <span className="truncate">การตั้งค่าไม่ถูกต้อง · {formatUpdatedAt(project.updatedAt)}</span>
+                          </div>
+                        ) : (
+                          <div className="text-[10px] text-gray-500">
+                            {project.config.areaColors.length} พื้นที่ · {formatUpdatedAt(project.updatedAt)}
+                          </div>
+                        )}
+                      </div>
+                    </button>
+
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => onRename(project.id)}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="เปลี่ยนชื่อ"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => onDuplicate(project.id)}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="ทำสำเนา"
+                      >
+                        <Copy className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(project.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="ลบ"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            ) : (
+              <div className="px-3 py-2 text-xs text-gray-500">ยังไม่มีโปรเจกต์</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,18 +7,22 @@ import { GeoJSONDataManager } from '@/lib/geojson-utils';
 
 interface SearchBarProps {
   dataManager: GeoJSONDataManager;
-  onResultSelect: (result: SearchResult) => void;
+  onResultSelect: (result: SearchResult, pressedEnter: boolean) => void;
   onSearchChange?: (query: string) => void;
   placeholder?: string;
   className?: string;
+  isDataReady?: boolean; // False while the searched data loads; typing waits for it
+  onFocus?: () => void;
 }
 
 export default function SearchBar({
   dataManager,
   onResultSelect,
   onSearchChange,
-  placeholder = "Search provinces, districts, or subdistricts...",
+  placeholder = "ค้นหาจังหวัด อำเภอ ตำบล...",
   className = '',
+  isDataReady = true,
+  onFocus,
 }: SearchBarProps) {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -28,10 +32,27 @@ export default function SearchBar({
 
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
+  // Text put into the box by picking a result; searching it again would reopen the list
+  const pickedQueryRef = useRef<string | null>(null);
+  // Query the listed results belong to, and the debounced search still to run
+  const searchedQueryRef = useRef('');
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Search with debounce
   useEffect(() => {
+    if (query === pickedQueryRef.current) return;
+    pickedQueryRef.current = null;
+
+    // Searched again once the data is in
+    if (!isDataReady) {
+      setIsLoading(query.trim().length >= 2);
+      setIsOpen(query.trim().length >= 2);
+      return;
+    }
+
     const timeoutId = setTimeout(() => {
+      searchTimeoutRef.current = null;
+      searchedQueryRef.current = query;
       if (query.trim().length >= 2) {
         setIsLoading(true);
         try {
@@ -49,20 +70,22 @@ export default function SearchBar({
       }
       setSelectedIndex(-1);
     }, 300);
+    searchTimeoutRef.current = timeoutId;
 
     return () => clearTimeout(timeoutId);
-  }, [query, dataManager]);
+  }, [query, dataManager, isDataReady]);
 
   // Notify parent of search changes
   useEffect(() => {
     onSearchChange?.(query);
   }, [query, onSearchChange]);
 
-  const handleResultSelect = useCallback((result: SearchResult) => {
+  const handleResultSelect = useCallback((result: SearchResult, pressedEnter = false) => {
+    pickedQueryRef.current = result.displayName;
     setQuery(result.displayName);
     setIsOpen(false);
     setSelectedIndex(-1);
-    onResultSelect(result);
+    onResultSelect(result, pressedEnter);
   }, [onResultSelect]);
 
   // Handle keyboard navigation
@@ -81,8 +104,23 @@ export default function SearchBar({
           break;
         case 'Enter':
           e.preventDefault();
-          if (selectedIndex >= 0 && selectedIndex < results.length) {
-            handleResultSelect(results[selectedIndex]);
+          // The list still shows an earlier query: search what is typed now instead
+          if (query !== searchedQueryRef.current) {
+            if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+            searchTimeoutRef.current = null;
+            searchedQueryRef.current = query;
+            const current = query.trim().length >= 2 ? dataManager.search(query.trim(), 20) : [];
+            if (current.length > 0) {
+              handleResultSelect(current[0], true);
+            } else {
+              setResults([]);
+              setIsOpen(false);
+            }
+            break;
+          }
+          // Enter without moving through the list takes the best match
+          if (results.length > 0) {
+            handleResultSelect(results[Math.max(selectedIndex, 0)], true);
           }
           break;
         case 'Escape':
@@ -97,7 +135,7 @@ export default function SearchBar({
       document.addEventListener('keydown', handleKeyDown);
       return () => document.removeEventListener('keydown', handleKeyDown);
     }
-  }, [isOpen, results, selectedIndex, handleResultSelect]);
+  }, [isOpen, results, selectedIndex, handleResultSelect, query, dataManager]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -148,17 +186,16 @@ export default function SearchBar({
   const getLevelLabel = (level: AdminLevel) => {
     switch (level) {
       case 'provinces':
-        return 'Province';
+        return 'จังหวัด';
       case 'districts':
-        return 'District';
+        return 'อำเภอ';
       case 'subdistricts':
-        return 'Subdistrict';
+        return 'ตำบล';
       case 'region_royin':
-        return 'Region (ROYIN)';
       case 'region_nesdb':
-        return 'Region (NESDB)';
+        return 'ภาค';
       default:
-        return 'Location';
+        return 'พื้นที่';
     }
   };
 
@@ -177,6 +214,7 @@ export default function SearchBar({
           placeholder={placeholder}
           className="block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
           onFocus={() => {
+            onFocus?.();
             if (results.length > 0) {
               setIsOpen(true);
             }
@@ -198,12 +236,12 @@ export default function SearchBar({
       {isOpen && (results.length > 0 || isLoading) && (
         <div
           ref={resultsRef}
-          className="absolute z-50 mt-1 w-full bg-white shadow-lg max-h-96 rounded-md border border-gray-200 overflow-hidden"
+          className="absolute z-500 mt-1 w-full bg-white shadow-lg max-h-96 rounded-md border border-gray-200 overflow-hidden"
         >
           {isLoading ? (
             <div className="px-4 py-3 text-sm text-gray-500 flex items-center space-x-2">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
-              <span>Searching...</span>
+              <span>กำลังค้นหา...</span>
             </div>
           ) : (
             <div className="overflow-auto max-h-96">
@@ -250,10 +288,10 @@ export default function SearchBar({
       {isOpen && !isLoading && results.length === 0 && query.trim().length >= 2 && (
         <div
           ref={resultsRef}
-          className="absolute z-50 mt-1 w-full bg-white shadow-lg rounded-md border border-gray-200 px-4 py-3"
+          className="absolute z-500 mt-1 w-full bg-white shadow-lg rounded-md border border-gray-200 px-4 py-3"
         >
           <div className="text-sm text-gray-500 text-center">
-            No results found for &quot;{query}&quot;
+            ไม่พบ &quot;{query}&quot;
           </div>
         </div>
       )}
@@ -1,11 +1,321 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { THAILAND_CONFIG } from '@/lib/types';
+import { GeoJSONFeature, GeoJSONGeometry, GeoJSONProperties, MapView, THAILAND_CONFIG } from '@/lib/types';
+import { LegendEntry, LegendPosition } from '@/lib/legend';
+import { MapSnapshot, SnapshotLabel, SnapshotPath } from '@/lib/map-export';
+import { MapLevel } from '@/lib/map-config';
+import {
+  REGION_LEVELS,
+  REGION_PROPERTY,
+  REGION_SCHEME_NAMES,
+  getRegionCode,
+  getRegionCodes,
+  isRegionLevel,
+  matchesRegionFilter,
+  regionNameTh,
+} from '@/lib/regions';
+import { Ring, signedArea } from '@/lib/geometry';
+import { SelectionMode, closeRing, shapeSelects } from '@/lib/selection';
+import { LABEL_RULES, LabelBox, geometryArea, labelFontSize, labelPosition, placeLabels } from '@/lib/labels';
+import MapLegend from '@/components/MapLegend';
+
+type AdminLevel = MapLevel;
+
+// What a click on an area does: paint it, or drill down into its children;
+// box and lasso turn dragging on the map into drawing a selection shape
+export type MapInteractionMode = 'paint' | 'explore' | 'box' | 'lasso' | 'identify';
+
+// Imperative access for the page (exports etc.), handed out through onMapApiReady
+export interface SimpleMapApi {
+  getSnapshot: () => MapSnapshot | null;
+  getView: () => MapView | null;
+}
+
+// Project (possibly nested) polygon rings to SVG path data in container pixels
+const latLngsToPathData = (map: L.Map, latLngs: unknown): string => {
+  if (!Array.isArray(latLngs) || latLngs.length === 0) return '';
+  if (latLngs[0] instanceof L.LatLng) {
+    const points = (latLngs as L.LatLng[]).map((latLng) => map.latLngToContainerPoint(latLng));
+    return 'M' + points.map((p) => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join('L') + 'Z';
+  }
+  return latLngs.map((child) => latLngsToPathData(map, child)).join('');
+};
+
+// Seconds for explore-mode viewport animations
+const FLY_DURATION = 0.8;
+
+// Areas sharing a parent: all districts of a province, all provinces of a region, ...
+interface ParentGroup {
+  label: string;
+  property: string; // Property whose value the members share
+  value: string;
+}
+
+// Parents of an area, nearest first
+const getParentGroups = (properties: GeoJSONProperties, level: AdminLevel): ParentGroup[] => {
+  const groups: ParentGroup[] = [];
+  if (level === 'subdistricts' && properties.amp_code) {
+    groups.push({ label: `อำเภอ${properties.amp_th}`, property: 'amp_code', value: String(properties.amp_code) });
+  }
+  if ((level === 'subdistricts' || level === 'districts') && properties.pro_code) {
+    groups.push({ label: `จังหวัด${properties.pro_th}`, property: 'pro_code', value: String(properties.pro_code) });
+  }
+  if (!isRegionLevel(level)) {
+    REGION_LEVELS.forEach((regionLevel) => {
+      const name = properties[REGION_PROPERTY[regionLevel]];
+      if (!name) return;
+      groups.push({
+        label: `${regionNameTh(String(name))} (${REGION_SCHEME_NAMES[regionLevel]})`,
+        property: REGION_PROPERTY[regionLevel],
+        value: String(name),
+      });
+    });
+  }
+  return groups;
+};
+
+const getAreaCode = (feature: any, level: AdminLevel): string => {
+  switch (level) {
+    case 'provinces':
+      return feature.properties.pro_code;
+    case 'districts':
+      return feature.properties.amp_code;
+    case 'subdistricts':
+      return feature.properties.tam_code;
+    case 'region_royin':
+    case 'region_nesdb':
+      return getRegionCode(feature.properties, level);
+    default:
+      return '';
+  }
+};
+
+const getAreaName = (feature: any, level: AdminLevel): string => {
+  switch (level) {
+    case 'provinces':
+      return feature.properties.pro_th;
+    case 'districts':
+      return feature.properties.amp_th;
+    case 'subdistricts':
+      return feature.properties.tam_th;
+    case 'region_royin':
+    case 'region_nesdb':
+      return regionNameTh(feature.properties[REGION_PROPERTY[level]] || '');
+    default:
+      return '';
+  }
+};
+
+// Label of an area; the position and text width are worked out the first
+// time the area is big enough on screen to be labeled
+interface AreaLabel {
+  text: string;
+  geometry: GeoJSONGeometry;
+  area: number; // Square degrees; larger areas win collisions
+  center: L.LatLng; // Bounds center, for sizing before the position is known
+  position?: L.LatLng | null;
+  textWidth?: number; // At LABEL_MEASURE_SIZE
+  fontSize: number; // Of the marker's icon; 0 until first shown
+  marker: L.Marker | null;
+}
 
-type AdminLevel = 'provinces' | 'districts' | 'subdistricts';
+const LABEL_MEASURE_SIZE = 10;
+const LABEL_LINE_HEIGHT = 1.2;
+// Free space kept around each label, in pixels
+const LABEL_PADDING = 3;
+
+let labelMeasureContext: CanvasRenderingContext2D | null = null;
+
+const measureLabel = (text: string, fontFamily: string): number => {
+  if (!labelMeasureContext) labelMeasureContext = document.createElement('canvas').getContext('2d');
+  if (!labelMeasureContext) return text.length * LABEL_MEASURE_SIZE * 0.6;
+  labelMeasureContext.font = `bold ${LABEL_MEASURE_SIZE}px ${fontFamily}`;
+  return labelMeasureContext.measureText(text).width;
+};
+
+const labelIcon = (text: string, fontSize: number, width: number, height: number): L.DivIcon =>
+  L.divIcon({
+    className: 'area-label',
+    html: `<div style="color: #000; font-size: ${fontSize}px; line-height: ${height}px; font-weight: bold; text-align: center; white-space: nowrap; pointer-events: none; text-shadow: 1px 1px 2px rgba(255,255,255,0.8);">${text}</div>`,
+    iconSize: [width, height],
+    iconAnchor: [width / 2, height / 2],
+  });
+
+const buildAreaLabels = (layer: L.GeoJSON, level: AdminLevel): AreaLabel[] => {
+  const labels: AreaLabel[] = [];
+  layer.eachLayer((member) => {
+    const polygon = member as L.Polygon;
+    const feature = polygon.feature;
+    if (!feature?.properties) return;
+    const geometry = feature.geometry as GeoJSONGeometry;
+    labels.push({
+      text: getAreaName(feature, level),
+      geometry,
+      area: geometryArea(geometry),
+      center: polygon.getBounds().getCenter(),
+      fontSize: 0,
+      marker: null,
+    });
+  });
+  return labels;
+};
+
+// Size every label for the current zoom, then show the ones that fit, largest areas first
+const layoutLabels = (map: L.Map, group: L.LayerGroup, labels: AreaLabel[], level: AdminLevel) => {
+  const rule = LABEL_RULES[level];
+  const fontFamily = getComputedStyle(map.getContainer()).fontFamily;
+  const candidates: (LabelBox & { label: AreaLabel; fontSize: number })[] = [];
+
+  labels.forEach((label) => {
+    // Pixels per square degree around the area
+    const origin = map.latLngToLayerPoint(label.center);
+    const corner = map.latLngToLayerPoint([label.center.lat + 1, label.center.lng + 1]);
+    const screenArea = label.area * Math.abs((corner.x - origin.x) * (corner.y - origin.y));
+    const fontSize = labelFontSize(rule, Math.sqrt(screenArea));
+    if (fontSize === null) return;
+
+    if (label.position === undefined) {
+      const position = labelPosition(label.geometry);
+      label.position = position ? L.latLng(position[1], position[0]) : null;
+    }
+    if (!label.position) return;
+    if (label.textWidth === undefined) label.textWidth = measureLabel(label.text, fontFamily);
+
+    const point = map.latLngToLayerPoint(label.position);
+    candidates.push({
+      x: point.x,
+      y: point.y,
+      width: (label.textWidth * fontSize) / LABEL_MEASURE_SIZE + LABEL_PADDING * 2,
+      height: fontSize * LABEL_LINE_HEIGHT + LABEL_PADDING * 2,
+      priority: label.area,
+      label,
+      fontSize,
+    });
+  });
+
+  const placed = new Set<AreaLabel>();
+  placeLabels(candidates).forEach(({ label, fontSize, width, height }) => {
+    placed.add(label);
+    if (!label.marker) {
+      label.marker = L.marker(label.position!, { interactive: false, keyboard: false });
+    }
+    if (label.fontSize !== fontSize) {
+      label.marker.setIcon(labelIcon(label.text, fontSize, Math.ceil(width), Math.ceil(height)));
+      label.fontSize = fontSize;
+    }
+    if (!group.hasLayer(label.marker)) group.addLayer(label.marker);
+  });
+  labels.forEach((label) => {
+    if (label.marker && !placed.has(label)) group.removeLayer(label.marker);
+  });
+};
+
+// Codes of the areas in the layer that the shape picks
+const pickAreas = (layer: L.GeoJSON, ring: Ring, level: AdminLevel, mode: SelectionMode): string[] => {
+  const codes: string[] = [];
+  const shapeBounds = L.latLngBounds(ring.map(([lng, lat]) => L.latLng(lat, lng)));
+  layer.eachLayer((member) => {
+    const polygon = member as L.Polygon;
+    if (!polygon.feature || !polygon.getBounds().intersects(shapeBounds)) return;
+    if (shapeSelects(polygon.feature.geometry as GeoJSONGeometry, ring, mode)) {
+      codes.push(getAreaCode(polygon.feature, level));
+    }
+  });
+  return codes;
+};
+
+const CONTEXT_MENU_WIDTH = 240;
+
+const SELECTION_SHAPE_STYLE: L.PathOptions = {
+  color: '#2563eb',
+  weight: 1.5,
+  dashArray: '4 4',
+  fillColor: '#2563eb',
+  fillOpacity: 0.08,
+  interactive: false,
+};
+
+const SELECTED_AREA_STYLE: L.PathOptions = {
+  color: '#2563eb',
+  weight: 3,
+  fillColor: '#2563eb',
+  fillOpacity: 0.15,
+};
+
+const NEIGHBOR_ORIGIN_STYLE: L.PathOptions = {
+  color: '#c2410c',
+  weight: 3,
+  fill: false,
+};
+
+const NEIGHBOR_AREA_STYLE: L.PathOptions = {
+  color: '#f97316',
+  weight: 2,
+  fillColor: '#f97316',
+  fillOpacity: 0.25,
+};
+
+const IDENTIFIED_POINT_STYLE: L.CircleMarkerOptions = {
+  radius: 6,
+  color: '#ffffff',
+  weight: 2,
+  fillColor: '#dc2626',
+  fillOpacity: 1,
+  interactive: false,
+};
+
+// Zoom the map flies to when an identified point is off screen
+const IDENTIFY_MIN_ZOOM = 9;
+
+const FOCUSED_AREA_STYLE: L.PathOptions = {
+  color: '#dc2626',
+  weight: 4,
+  fill: false,
+  interactive: false,
+};
+
+// The focused area's outline blinks this many times, then disappears
+const FOCUS_BLINKS = 4;
+const FOCUS_BLINK_MS = 350;
+// Keeps small subdistricts from filling the whole screen
+const FOCUS_MAX_ZOOM = 12;
+
+// Fly to an area and blink its outline; returns a function that stops the blinking
+const focusArea = (map: L.Map, geometry: GeoJSONGeometry): (() => void) => {
+  const outline = L.geoJSON(
+    { type: 'Feature', properties: {}, geometry } as GeoJSON.Feature,
+    { style: () => FOCUSED_AREA_STYLE, interactive: false }
+  ).addTo(map);
+  map.flyToBounds(outline.getBounds(), { padding: [40, 40], maxZoom: FOCUS_MAX_ZOOM, duration: FLY_DURATION });
+
+  let toggles = 0;
+  const timer = window.setInterval(() => {
+    toggles++;
+    if (toggles >= FOCUS_BLINKS * 2) {
+      window.clearInterval(timer);
+      outline.remove();
+    } else {
+      outline.setStyle({ opacity: toggles % 2 === 0 ? 1 : 0 });
+    }
+  }, FOCUS_BLINK_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    outline.remove();
+  };
+};
+
+// Outline of areas whose color is locked against auto-coloring
+const LOCKED_DASH_ARRAY = '5 4';
+
+// Lasso points closer than this (in pixels) to the previous one are skipped
+const LASSO_MIN_STEP = 4;
+// Box and lasso shapes enclosing less than this (in square pixels) are clicks
+const MIN_SHAPE_AREA = 1;
 
 interface SimpleMapProps extends Readonly<{}> {
   selectedColor: string;
@@ -15,8 +325,32 @@ interface SimpleMapProps extends Readonly<{}> {
   onMapReady?: () => void;
   selectedProvinces?: string[]; // Array of province codes to filter districts
   selectedDistricts?: string[]; // Array of district codes to filter subdistricts
+  selectedRegions?: string[]; // Region codes ("royin:North") filtering provinces, districts and subdistricts
   borderColor?: string; // Custom border color
   showAreaNames?: boolean; // Toggle for showing/hiding area names
+  classifiedColors?: Map<string, string>; // Colors from choropleth classification, painted colors take precedence
+  showLegend?: boolean; // Toggle for the legend control
+  legendEntries?: LegendEntry[]; // Colors in use with their labels
+  legendTitle?: string;
+  legendPosition?: LegendPosition; // Map corner the legend is docked to
+  onLegendTitleChange?: (title: string) => void;
+  onLegendLabelChange?: (color: string, label: string) => void;
+  onLegendPositionChange?: (position: LegendPosition) => void;
+  onMapApiReady?: (api: SimpleMapApi) => void;
+  initialView?: MapView | null; // Viewport to restore instead of fitting the next loaded level
+  territoryOutlines?: GeoJSONGeometry[]; // Dissolved territory outlines drawn over the areas
+  interactionMode?: MapInteractionMode;
+  onAreaExplore?: (code: string, level: AdminLevel) => void; // Area clicked in explore mode
+  selectionMode?: SelectionMode; // How the box and lasso tools pick areas
+  selectedAreaCodes?: string[]; // Areas picked with the box or lasso tool, outlined on the map
+  onAreasSelected?: (codes: string[], additive: boolean) => void; // additive: Shift was held while drawing
+  lockedAreas?: Set<string>; // Areas auto-coloring leaves alone, drawn with a dashed outline
+  onToggleAreaLock?: (code: string) => void;
+  highlightedNeighbors?: { code: string; neighbors: string[] } | null; // Area and the areas sharing its border
+  onShowNeighbors?: (code: string) => void;
+  identifiedPoint?: [number, number] | null; // [lat, lng] marked on the map in identify mode
+  onIdentify?: (lat: number, lng: number) => void; // Map clicked in identify mode
+  focusedArea?: { geometry: GeoJSONGeometry } | null; // Flown to and flashed, e.g. a search result; a new object flashes again
 }
 
 export default function SimpleMap({
@@ -27,18 +361,72 @@ export default function SimpleMap({
   onMapReady,
   selectedProvinces = [],
   selectedDistricts = [],
+  selectedRegions = [],
   borderColor = '#000000',
-  showAreaNames = true
+  showAreaNames = true,
+  classifiedColors,
+  showLegend = false,
+  legendEntries = [],
+  legendTitle = '',
+  legendPosition = 'bottomright',
+  onLegendTitleChange,
+  onLegendLabelChange,
+  onLegendPositionChange,
+  onMapApiReady,
+  initialView,
+  territoryOutlines,
+  interactionMode = 'paint',
+  onAreaExplore,
+  selectionMode = 'intersect',
+  selectedAreaCodes,
+  onAreasSelected,
+  lockedAreas,
+  onToggleAreaLock,
+  highlightedNeighbors,
+  onShowNeighbors,
+  identifiedPoint,
+  onIdentify,
+  focusedArea
 }: SimpleMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const currentLayerRef = useRef<L.GeoJSON | null>(null);
   const labelsLayerRef = useRef<L.LayerGroup | null>(null);
+  const areaLabelsRef = useRef<AreaLabel[]>([]);
   const provinceBordersRef = useRef<L.GeoJSON | null>(null);
   const districtBordersRef = useRef<L.GeoJSON | null>(null);
+  const territoryOutlinesRef = useRef<L.GeoJSON | null>(null);
+  const selectionLayerRef = useRef<L.GeoJSON | null>(null);
+  const neighborLayerRef = useRef<L.GeoJSON | null>(null);
+  const identifiedMarkerRef = useRef<L.CircleMarker | null>(null);
   const selectedColorRef = useRef<string>(selectedColor);
   const areaColorsRef = useRef<Map<string, string>>(areaColors);
+  const classifiedColorsRef = useRef<Map<string, string> | undefined>(classifiedColors);
   const currentLevelRef = useRef<AdminLevel>(currentLevel);
+  const interactionModeRef = useRef<MapInteractionMode>(interactionMode);
+  const onAreaExploreRef = useRef(onAreaExplore);
+  const selectionModeRef = useRef<SelectionMode>(selectionMode);
+  const onAreasSelectedRef = useRef(onAreasSelected);
+  const lockedAreasRef = useRef<Set<string> | undefined>(lockedAreas);
+  const onToggleAreaLockRef = useRef(onToggleAreaLock);
+  const onShowNeighborsRef = useRef(onShowNeighbors);
+  const onIdentifyRef = useRef(onIdentify);
+  const legendControlRef = useRef<L.Control | null>(null);
+  const pendingViewRef = useRef<MapView | null>(initialView || null);
+  const loadRequestRef = useRef(0);
+  // Last load whose areas are on the map; behind loadRequestRef while a level is loading
+  const displayedRequestRef = useRef(0);
+  // Area to fly to once the level being loaded is displayed, instead of fitting the level
+  const pendingFocusRef = useRef<{ geometry: GeoJSONGeometry } | null>(null);
+  const stopFocusRef = useRef<(() => void) | null>(null);
+  const [legendContainer, setLegendContainer] = useState<HTMLDivElement | null>(null);
+  const [contextMenu, setContextMenu] = useState<{
+    x: number;
+    y: number;
+    areaCode: string;
+    areaName: string;
+    groups: ParentGroup[];
+  } | null>(null);
 
   // Update refs when props change
   useEffect(() => {
@@ -49,10 +437,38 @@ export default function SimpleMap({
     areaColorsRef.current = areaColors;
   }, [areaColors]);
 
+  useEffect(() => {
+    classifiedColorsRef.current = classifiedColors;
+  }, [classifiedColors]);
+
   useEffect(() => {
     currentLevelRef.current = currentLevel;
   }, [currentLevel]);
 
+  useEffect(() => {
+    interactionModeRef.current = interactionMode;
+    onAreaExploreRef.current = onAreaExplore;
+  }, [interactionMode, onAreaExplore]);
+
+  useEffect(() => {
+    selectionModeRef.current = selectionMode;
+    onAreasSelectedRef.current = onAreasSelected;
+  }, [selectionMode, onAreasSelected]);
+
+  useEffect(() => {
+    lockedAreasRef.current = lockedAreas;
+    onToggleAreaLockRef.current = onToggleAreaLock;
+    onShowNeighborsRef.current = onShowNeighbors;
+  }, [lockedAreas, onToggleAreaLock, onShowNeighbors]);
+
+  useEffect(() => {
+    onIdentifyRef.current = onIdentify;
+  }, [onIdentify]);
+
+  useEffect(() => {
+    if (initialView) pendingViewRef.current = initialView;
+  }, [initialView]);
+
   // Initialize map
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
@@ -89,86 +505,281 @@ export default function SimpleMap({
     mapRef.current = map;
     labelsLayerRef.current = L.layerGroup().addTo(map);
 
-    // Add zoom event listener to update labels when zoom changes
-    map.on('zoomend', () => {
+    // Legend control; its content is rendered by React through a portal
+    const legendDiv = L.DomUtil.create('div', 'legend-control');
+    L.DomEvent.disableClickPropagation(legendDiv);
+    L.DomEvent.disableScrollPropagation(legendDiv);
+    const legendControl = new L.Control({ position: 'bottomright' });
+    legendControl.onAdd = () => legendDiv;
+    legendControlRef.current = legendControl;
+    setLegendContainer(legendDiv);
+
+    onMapApiReady?.({
+      getSnapshot: captureSnapshot,
+      getView: () => {
+        if (!mapRef.current) return null;
+        const center = mapRef.current.getCenter();
+        return { center: [center.lat, center.lng], zoom: mapRef.current.getZoom() };
+      },
+    });
+
+    // Any map interaction closes the area context menu
+    const closeContextMenu = () => setContextMenu(null);
+    map.on('movestart zoomstart click', closeContextMenu);
+
+    // Label sizes and collisions depend on the zoom only; panning keeps them
+    const handleZoomEnd = () => {
       if (labelsLayerRef.current) {
-        labelsLayerRef.current.eachLayer((labelLayer: any) => {
-          const marker = labelLayer as L.Marker;
-          const icon = marker.getIcon() as L.DivIcon;
-          const currentHtml = icon.options.html;
-
-          if (typeof currentHtml === 'string') {
-            const areaNameMatch = currentHtml.match(/>(.*?)<\/div>/);
-            if (areaNameMatch) {
-              const areaName = areaNameMatch[1];
-              const newLabelSize = getLabelSize(currentLevelRef.current);
-              const newHtml = `<div style="color: #000; font-size: ${newLabelSize}px; font-weight: bold; text-align: center; pointer-events: none; text-shadow: 1px 1px 2px rgba(255,255,255,0.8);">${areaName}</div>`;
-
-              const newIcon = L.divIcon({
-                className: 'area-label',
-                html: newHtml,
-                iconSize: [120, 24],
-                iconAnchor: [60, 12]
-              });
-              marker.setIcon(newIcon);
-            }
-          }
-        });
+        layoutLabels(map, labelsLayerRef.current, areaLabelsRef.current, currentLevelRef.current);
       }
-    });
+    };
+    map.on('zoomend', handleZoomEnd);
 
     return () => {
       if (mapRef.current) {
         removeProvinceBorders();
         removeDistrictBorders();
-        mapRef.current.off('zoomend');
+        mapRef.current.off('zoomend', handleZoomEnd);
+        mapRef.current.off('movestart zoomstart click', closeContextMenu);
+        legendControlRef.current = null;
         mapRef.current.remove();
         mapRef.current = null;
       }
     };
   }, []);
 
-  // Load data when level changes or selected provinces/districts change
+  // Show/hide and dock the legend control
+  useEffect(() => {
+    const map = mapRef.current;
+    const control = legendControlRef.current;
+    if (!map || !control) return;
+
+    control.setPosition(legendPosition);
+    if (showLegend) {
+      control.addTo(map);
+    } else {
+      control.remove();
+    }
+  }, [showLegend, legendPosition]);
+
+  // Identify mode: a click anywhere asks which areas contain the point
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || interactionMode !== 'identify') return;
+
+    map.getContainer().style.cursor = 'crosshair';
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      onIdentifyRef.current?.(event.latlng.lat, event.latlng.lng);
+    };
+    map.on('click', handleClick);
+
+    return () => {
+      map.off('click', handleClick);
+      map.getContainer().style.cursor = '';
+    };
+  }, [interactionMode]);
+
+  // Mark the identified point, bringing it into view when it is off screen
+  useEffect(() => {
+    const map = mapRef.current;
+    identifiedMarkerRef.current?.remove();
+    identifiedMarkerRef.current = null;
+    if (!map || !identifiedPoint) return;
+
+    const latLng = L.latLng(identifiedPoint[0], identifiedPoint[1]);
+    identifiedMarkerRef.current = L.circleMarker(latLng, IDENTIFIED_POINT_STYLE).addTo(map);
+    if (!map.getBounds().contains(latLng)) {
+      map.flyTo(latLng, Math.max(map.getZoom(), IDENTIFY_MIN_ZOOM), { duration: FLY_DURATION });
+    }
+  }, [identifiedPoint]);
+
+  // Box and lasso tools: dragging draws the shape instead of panning the map
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || (interactionMode !== 'box' && interactionMode !== 'lasso')) return;
+    const tool = interactionMode;
+
+    map.dragging.disable();
+    map.boxZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    let points: L.LatLng[] | null = null;
+    let lastPoint: L.Point | null = null;
+    let shape: L.Polygon | null = null;
+    let additive = false;
+
+    const shapeLatLngs = (): L.LatLng[] => {
+      if (!points) return [];
+      if (tool === 'lasso') return points;
+      const bounds = L.latLngBounds(points[0], points[points.length - 1]);
+      return [bounds.getSouthWest(), bounds.getSouthEast(), bounds.getNorthEast(), bounds.getNorthWest()];
+    };
+
+    const handleMouseDown = (event: L.LeafletMouseEvent) => {
+      if (event.originalEvent.button !== 0) return;
+      points = [event.latlng];
+      lastPoint = event.containerPoint;
+      additive = event.originalEvent.shiftKey;
+    };
+
+    const handleMouseMove = (event: L.LeafletMouseEvent) => {
+      if (!points || !lastPoint) return;
+      if (tool === 'lasso') {
+        if (event.containerPoint.distanceTo(lastPoint) < LASSO_MIN_STEP) return;
+        points.push(event.latlng);
+      } else {
+        points = [points[0], event.latlng];
+      }
+      lastPoint = event.containerPoint;
+      if (shape) {
+        shape.setLatLngs(shapeLatLngs());
+      } else {
+        shape = L.polygon(shapeLatLngs(), SELECTION_SHAPE_STYLE).addTo(map);
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (!points) return;
+      const latLngs = shapeLatLngs();
+      points = null;
+      lastPoint = null;
+      shape?.remove();
+      shape = null;
+      // A click, or a drag along a line, encloses nothing and selects nothing
+      const pixels = latLngs.map((latLng) => {
+        const point = map.latLngToContainerPoint(latLng);
+        return [point.x, point.y];
+      });
+      if (latLngs.length < 3 || Math.abs(signedArea(pixels)) < MIN_SHAPE_AREA || !currentLayerRef.current) return;
+      const ring = closeRing(latLngs.map((latLng) => [latLng.lng, latLng.lat]));
+      onAreasSelectedRef.current?.(
+        pickAreas(currentLayerRef.current, ring, currentLevelRef.current, selectionModeRef.current),
+        additive
+      );
+    };
+
+    map.on('mousedown', handleMouseDown);
+    map.on('mousemove', handleMouseMove);
+    // Released outside the map still ends the shape
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      map.off('mousedown', handleMouseDown);
+      map.off('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      shape?.remove();
+      map.dragging.enable();
+      map.boxZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [interactionMode]);
+
+  // Outline the areas picked with the box or lasso tool
+  useEffect(() => {
+    selectionLayerRef.current?.remove();
+    selectionLayerRef.current = null;
+    if (!mapRef.current || !currentLayerRef.current || !selectedAreaCodes || selectedAreaCodes.length === 0) return;
+
+    const codes = new Set(selectedAreaCodes);
+    const features: NonNullable<L.Polygon['feature']>[] = [];
+    currentLayerRef.current.eachLayer((member) => {
+      const feature = (member as L.Polygon).feature;
+      if (feature && codes.has(getAreaCode(feature, currentLevelRef.current))) features.push(feature);
+    });
+    selectionLayerRef.current = L.geoJSON(features, { style: () => SELECTED_AREA_STYLE, interactive: false })
+      .addTo(mapRef.current);
+  }, [selectedAreaCodes]);
+
+  // Outline an area and fill the areas that share its border
+  useEffect(() => {
+    neighborLayerRef.current?.remove();
+    neighborLayerRef.current = null;
+    if (!mapRef.current || !currentLayerRef.current || !highlightedNeighbors) return;
+
+    const neighbors = new Set(highlightedNeighbors.neighbors);
+    const features: NonNullable<L.Polygon['feature']>[] = [];
+    currentLayerRef.current.eachLayer((member) => {
+      const feature = (member as L.Polygon).feature;
+      if (!feature) return;
+      const code = getAreaCode(feature, currentLevelRef.current);
+      if (code === highlightedNeighbors.code || neighbors.has(code)) features.push(feature);
+    });
+    neighborLayerRef.current = L.geoJSON(features, {
+      style: (feature) =>
+        feature && getAreaCode(feature, currentLevelRef.current) === highlightedNeighbors.code
+          ? NEIGHBOR_ORIGIN_STYLE
+          : NEIGHBOR_AREA_STYLE,
+      interactive: false,
+    }).addTo(mapRef.current);
+  }, [highlightedNeighbors]);
+
+  // Escape closes the area context menu
+  useEffect(() => {
+    if (!contextMenu) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setContextMenu(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [contextMenu]);
+
+  // Load data when level changes or selected regions/provinces/districts change
   useEffect(() => {
     if (!mapRef.current) return;
     loadLevelData();
-  }, [currentLevel, selectedProvinces, selectedDistricts]);
+  }, [currentLevel, selectedProvinces, selectedDistricts, selectedRegions]);
+
+  // Fly to the focused area; if its level is still loading, wait for it so that
+  // fitting the new level does not override the flight
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !focusedArea) return;
+    if (loadRequestRef.current !== displayedRequestRef.current) {
+      pendingFocusRef.current = focusedArea;
+      return;
+    }
+    stopFocusRef.current?.();
+    stopFocusRef.current = focusArea(map, focusedArea.geometry);
+  }, [focusedArea]);
+
+  useEffect(() => () => stopFocusRef.current?.(), []);
 
-  // Update colors when areaColors changes
+  // Update colors when areaColors, the classified colors or the locks change
   useEffect(() => {
     updateLayerColors();
-  }, [areaColors]);
+  }, [areaColors, classifiedColors, lockedAreas]);
+
+  // Redraw territory outlines; they stay on top of the areas and borders
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    territoryOutlinesRef.current?.remove();
+    territoryOutlinesRef.current = null;
+    if (!territoryOutlines || territoryOutlines.length === 0) return;
+
+    const layer = L.geoJSON(
+      {
+        type: 'FeatureCollection',
+        features: territoryOutlines.map((geometry) => ({ type: 'Feature', properties: {}, geometry })),
+      } as GeoJSON.FeatureCollection,
+      {
+        style: () => ({
+          fill: false,
+          color: borderColor,
+          weight: 3,
+          opacity: 1,
+        }),
+        interactive: false,
+      }
+    );
+    layer.addTo(map);
+    territoryOutlinesRef.current = layer;
+  }, [territoryOutlines, borderColor]);
 
   // Update labels when showAreaNames changes
   useEffect(() => {
-    if (!mapRef.current || !labelsLayerRef.current || !currentLayerRef.current) return;
-
-    if (showAreaNames) {
-      // Show labels immediately by recreating them from current layer
-      labelsLayerRef.current.clearLayers();
-      currentLayerRef.current.eachLayer((layer: any) => {
-        if (layer.feature && layer.feature.properties) {
-          const areaName = getAreaName(layer.feature, currentLevel);
-
-          if (shouldShowLabel(currentLevel)) {
-            const labelPosition = (layer as any).getBounds().getCenter();
-            const labelSize = getLabelSize(currentLevel);
-            const marker = L.marker(labelPosition, {
-              icon: L.divIcon({
-                className: 'area-label',
-                html: `<div style="color: #000; font-size: ${labelSize}px; font-weight: bold; text-align: center; pointer-events: none; text-shadow: 1px 1px 2px rgba(255,255,255,0.8);">${areaName}</div>`,
-                iconSize: [120, 24],
-                iconAnchor: [60, 12]
-              })
-            });
-            labelsLayerRef.current!.addLayer(marker);
-          }
-        }
-      });
-    } else {
-      // Hide all labels immediately
-      labelsLayerRef.current.clearLayers();
-    }
+    if (currentLayerRef.current) resetLabels(currentLayerRef.current);
   }, [showAreaNames]);
 
   // Update border colors when borderColor changes
@@ -193,11 +804,14 @@ export default function SimpleMap({
   }, [borderColor]);
 
   const loadLevelData = async () => {
+    // Ignore responses of loads that were superseded while in flight
+    const requestId = ++loadRequestRef.current;
     try {
       const response = await fetch(`/data/${currentLevel}.geojson`);
       const data = await response.json();
 
-      if (mapRef.current) {
+      if (mapRef.current && requestId === loadRequestRef.current) {
+        displayedRequestRef.current = requestId;
         displayAreas(data);
         // Load borders overlay based on level
         if (currentLevel === 'districts') {
@@ -210,10 +824,15 @@ export default function SimpleMap({
           removeProvinceBorders();
           removeDistrictBorders();
         }
+        territoryOutlinesRef.current?.bringToFront();
         onMapReady?.();
       }
     } catch (error) {
       console.error(`Error loading ${currentLevel} data:`, error);
+      if (requestId === loadRequestRef.current) {
+        displayedRequestRef.current = requestId;
+        pendingFocusRef.current = null;
+      }
     }
   };
 
@@ -228,11 +847,12 @@ export default function SimpleMap({
 
         // Filter provinces based on selection
         let filteredProvincesData = provincesData;
-        if (selectedProvinces.length > 0) {
+        if (selectedProvinces.length > 0 || selectedRegions.length > 0) {
           filteredProvincesData = {
             ...provincesData,
             features: provincesData.features.filter((feature: any) =>
-              selectedProvinces.includes(feature.properties.pro_code)
+              (selectedProvinces.length === 0 || selectedProvinces.includes(feature.properties.pro_code)) &&
+              matchesRegionFilter(getRegionCodes(feature.properties), selectedRegions)
             )
           };
         }
@@ -275,11 +895,12 @@ export default function SimpleMap({
 
         // Filter districts based on selection
         let filteredDistrictsData = districtsData;
-        if (selectedDistricts.length > 0) {
+        if (selectedDistricts.length > 0 || selectedRegions.length > 0) {
           filteredDistrictsData = {
             ...districtsData,
             features: districtsData.features.filter((feature: any) =>
-              selectedDistricts.includes(feature.properties.amp_code)
+              (selectedDistricts.length === 0 || selectedDistricts.includes(feature.properties.amp_code)) &&
+              matchesRegionFilter(getRegionCodes(feature.properties), selectedRegions)
             )
           };
         }
@@ -335,6 +956,16 @@ export default function SimpleMap({
       };
     }
 
+    // Region filter applies on top of the province/district filters
+    if (!isRegionLevel(currentLevel) && selectedRegions.length > 0) {
+      filteredData = {
+        ...filteredData,
+        features: filteredData.features.filter((feature: GeoJSONFeature) =>
+          matchesRegionFilter(getRegionCodes(feature.properties), selectedRegions)
+        )
+      };
+    }
+
     // Remove existing layers
     if (currentLayerRef.current) {
       mapRef.current.removeLayer(currentLayerRef.current);
@@ -346,7 +977,7 @@ export default function SimpleMap({
         if (!feature) return getDefaultStyle();
 
         const areaCode = getAreaCode(feature, currentLevel);
-        const fillColor = areaColorsRef.current.get(areaCode) || '#ffffff';
+        const fillColor = getFillColor(areaCode);
 
         return {
           fillColor: fillColor,
@@ -354,6 +985,7 @@ export default function SimpleMap({
           color: getStrokeColor(currentLevel),
           weight: getStrokeWeight(currentLevel),
           opacity: getStrokeOpacity(currentLevel),
+          dashArray: lockedAreasRef.current?.has(areaCode) ? LOCKED_DASH_ARRAY : undefined,
         };
       },
       onEachFeature: (feature, layer) => {
@@ -368,110 +1000,21 @@ export default function SimpleMap({
             className: 'area-tooltip'
           });
 
-          // Add permanent label for larger areas or when zoomed in
-          if (shouldShowLabel(currentLevel)) {
-            // Use polygon centroid for better positioning instead of bounds center
-            let labelPosition;
-            try {
-              // Calculate polygon centroid using proper geometry
-              const geoJsonLayer = layer as L.GeoJSON;
-
-              // Check if it's a Polygon or MultiPolygon
-              if (feature.geometry.type === 'Polygon') {
-                const coordinates = feature.geometry.coordinates[0]; // Get outer ring
-
-                // Calculate true polygon centroid using shoelace formula
-                let area = 0;
-                let centroidLng = 0;
-                let centroidLat = 0;
-
-                for (let i = 0; i < coordinates.length - 1; i++) {
-                  const x0 = coordinates[i][0];
-                  const y0 = coordinates[i][1];
-                  const x1 = coordinates[i + 1][0];
-                  const y1 = coordinates[i + 1][1];
-
-                  const a = x0 * y1 - x1 * y0;
-                  area += a;
-                  centroidLng += (x0 + x1) * a;
-                  centroidLat += (y0 + y1) * a;
-                }
-
-                area *= 0.5;
-                centroidLng /= (6 * area);
-                centroidLat /= (6 * area);
-
-                labelPosition = L.latLng(centroidLat, centroidLng);
-
-              } else if (feature.geometry.type === 'MultiPolygon') {
-                // For MultiPolygon, use the largest polygon's centroid
-                const polygons = feature.geometry.coordinates;
-                let largestPolygon = polygons[0];
-                let maxArea = 0;
-
-                // Find the largest polygon by approximate area
-                for (const polygon of polygons) {
-                  const coords = polygon[0];
-                  const area = Math.abs(coords.reduce((acc: number, curr: number[], i: number) => {
-                    const next = coords[(i + 1) % coords.length];
-                    return acc + (curr[0] * next[1] - next[0] * curr[1]);
-                  }, 0)) / 2;
-
-                  if (area > maxArea) {
-                    maxArea = area;
-                    largestPolygon = polygon;
-                  }
-                }
-
-                const coordinates = largestPolygon[0];
-
-                // Calculate true polygon centroid for the largest polygon
-                let area = 0;
-                let centroidLng = 0;
-                let centroidLat = 0;
-
-                for (let i = 0; i < coordinates.length - 1; i++) {
-                  const x0 = coordinates[i][0];
-                  const y0 = coordinates[i][1];
-                  const x1 = coordinates[i + 1][0];
-                  const y1 = coordinates[i + 1][1];
-
-                  const a = x0 * y1 - x1 * y0;
-                  area += a;
-                  centroidLng += (x0 + x1) * a;
-                  centroidLat += (y0 + y1) * a;
-                }
-
-                area *= 0.5;
-                centroidLng /= (6 * area);
-                centroidLat /= (6 * area);
-
-                labelPosition = L.latLng(centroidLat, centroidLng);
-
-              } else {
-                // Fallback to bounds center for other geometry types
-                labelPosition = (geoJsonLayer as any).getBounds().getCenter();
-              }
-            } catch (error) {
-              // Fallback to bounds center if centroid calculation fails
-              console.warn('Centroid calculation failed, using bounds center:', error);
-              labelPosition = (layer as any).getBounds().getCenter();
-            }
-
-            const labelSize = getLabelSize(currentLevel);
-            const marker = L.marker(labelPosition, {
-              icon: L.divIcon({
-                className: 'area-label',
-                html: `<div style="color: #000; font-size: ${labelSize}px; font-weight: bold; text-align: center; pointer-events: none; text-shadow: 1px 1px 2px rgba(255,255,255,0.8);">${areaName}</div>`,
-                iconSize: [120, 24],
-                iconAnchor: [60, 12]
-              })
-            });
-            labelsLayerRef.current!.addLayer(marker);
-          }
-
           // Click to color - always add the selected color (allow multiple areas)
-          layer.on('click', () => {
+          layer.on('click', (event: L.LeafletMouseEvent) => {
+            if (interactionModeRef.current === 'explore') {
+              // Start moving towards the area while its children load
+              mapRef.current?.flyToBounds((layer as L.Polygon).getBounds(), { padding: [20, 20], duration: FLY_DURATION });
+              onAreaExploreRef.current?.(areaCode, currentLevel);
+              return;
+            }
+            if (interactionModeRef.current !== 'paint') return;
+            // Shift-click paints the nearest parent as a whole (the province of a district, ...)
+            const [parent] = event.originalEvent.shiftKey ? getParentGroups(feature.properties, currentLevel) : [];
+            if (parent) {
+              paintGroup(parent, selectedColorRef.current);
+              return;
+            }
             const newColors = new Map(areaColorsRef.current);
             newColors.set(areaCode, selectedColorRef.current);
             onAreaColorsChange(newColors);
@@ -479,11 +1022,28 @@ export default function SimpleMap({
 
           // Double-click to remove color
           layer.on('dblclick', () => {
+            if (interactionModeRef.current !== 'paint') return;
             const newColors = new Map(areaColorsRef.current);
             newColors.delete(areaCode);
             onAreaColorsChange(newColors);
           });
 
+          // Right-click offers to paint or clear every area sharing a parent with this one, or to lock its color
+          layer.on('contextmenu', (event: L.LeafletMouseEvent) => {
+            if (interactionModeRef.current !== 'paint' || !mapRef.current) return;
+            const groups = getParentGroups(feature.properties, currentLevel);
+            if (groups.length === 0 && !onToggleAreaLockRef.current && !onShowNeighborsRef.current) return;
+            L.DomEvent.preventDefault(event.originalEvent);
+            const size = mapRef.current.getSize();
+            setContextMenu({
+              x: Math.max(0, Math.min(event.containerPoint.x, size.x - CONTEXT_MENU_WIDTH)),
+              y: event.containerPoint.y,
+              areaCode,
+              areaName,
+              groups,
+            });
+          });
+
           // Hover effects
           layer.on({
             mouseover: () => {
@@ -507,11 +1067,101 @@ export default function SimpleMap({
     currentLayerRef.current = layer;
 
 
-    // Fit to bounds
+    // Restore a requested viewport once, otherwise fit to bounds
     const bounds = layer.getBounds();
-    if (bounds.isValid()) {
-      mapRef.current.fitBounds(bounds, { padding: [20, 20] });
+    if (pendingViewRef.current) {
+      mapRef.current.setView(pendingViewRef.current.center, pendingViewRef.current.zoom);
+      pendingViewRef.current = null;
+    } else if (pendingFocusRef.current) {
+      stopFocusRef.current?.();
+      stopFocusRef.current = focusArea(mapRef.current, pendingFocusRef.current.geometry);
+      pendingFocusRef.current = null;
+    } else if (bounds.isValid()) {
+      // Exploring animates between levels; painting jumps straight to the new extent
+      if (interactionModeRef.current === 'explore') {
+        mapRef.current.flyToBounds(bounds, { padding: [20, 20], duration: FLY_DURATION });
+      } else {
+        mapRef.current.fitBounds(bounds, { padding: [20, 20] });
+      }
     }
+    resetLabels(layer);
+  };
+
+  // New labels for the areas of the layer, laid out for the current zoom
+  const resetLabels = (layer: L.GeoJSON) => {
+    if (!mapRef.current || !labelsLayerRef.current) return;
+    labelsLayerRef.current.clearLayers();
+    areaLabelsRef.current = shouldShowLabel(currentLevel) ? buildAreaLabels(layer, currentLevel) : [];
+    layoutLabels(mapRef.current, labelsLayerRef.current, areaLabelsRef.current, currentLevel);
+  };
+
+  // Color (or clear, with null) every displayed area of the level that belongs to the group
+  const paintGroup = (group: ParentGroup, color: string | null) => {
+    if (!currentLayerRef.current) return;
+    const level = currentLevelRef.current;
+    const newColors = new Map(areaColorsRef.current);
+    currentLayerRef.current.eachLayer((member) => {
+      const feature = (member as L.Polygon).feature;
+      const properties = feature?.properties as GeoJSONProperties | undefined;
+      if (!properties || String(properties[group.property] ?? '') !== group.value) return;
+      const code = getAreaCode(feature, level);
+      if (color) {
+        newColors.set(code, color);
+      } else {
+        newColors.delete(code);
+      }
+    });
+    onAreaColorsChange(newColors);
+  };
+
+  // Capture the visible fills, border overlays and labels for image export
+  const captureSnapshot = (): MapSnapshot | null => {
+    const map = mapRef.current;
+    if (!map) return null;
+
+    const size = map.getSize();
+    const viewBounds = map.getBounds();
+    const paths: SnapshotPath[] = [];
+    const labels: SnapshotLabel[] = [];
+
+    const addPaths = (geoJsonLayer: L.GeoJSON | null) => {
+      geoJsonLayer?.eachLayer((layer) => {
+        if (!(layer instanceof L.Polygon)) return;
+        if (!viewBounds.intersects(layer.getBounds())) return;
+
+        const options = layer.options;
+        const fillOpacity = options.fillOpacity ?? 0;
+        paths.push({
+          d: latLngsToPathData(map, layer.getLatLngs()),
+          fill: fillOpacity > 0 && options.fillColor ? options.fillColor : 'none',
+          fillOpacity,
+          stroke: options.color || borderColor,
+          strokeWidth: options.weight ?? 1,
+          strokeOpacity: options.opacity ?? 1,
+        });
+      });
+    };
+
+    addPaths(currentLayerRef.current);
+    addPaths(provinceBordersRef.current);
+    addPaths(districtBordersRef.current);
+    addPaths(territoryOutlinesRef.current);
+
+    areaLabelsRef.current.forEach((label) => {
+      if (!label.marker || !label.position || !labelsLayerRef.current?.hasLayer(label.marker)) return;
+      if (!viewBounds.contains(label.position)) return;
+      const point = map.latLngToContainerPoint(label.position);
+      labels.push({ x: point.x, y: point.y, text: label.text, fontSize: label.fontSize });
+    });
+
+    // Horizontal distance across 100px at the view center
+    const center = size.divideBy(2);
+    const metersPerPixel = map.distance(
+      map.containerPointToLatLng(center),
+      map.containerPointToLatLng(center.add([100, 0]))
+    ) / 100;
+
+    return { width: size.x, height: size.y, paths, labels, metersPerPixel };
   };
 
   const updateLayerColors = () => {
@@ -520,7 +1170,7 @@ export default function SimpleMap({
     currentLayerRef.current.eachLayer((layer: any) => {
       if (layer.feature) {
         const areaCode = getAreaCode(layer.feature, currentLevel);
-        const fillColor = areaColorsRef.current.get(areaCode) || '#ffffff';
+        const fillColor = getFillColor(areaCode);
 
         (layer as any).setStyle({
           fillColor: fillColor,
@@ -528,35 +1178,17 @@ export default function SimpleMap({
           color: getStrokeColor(currentLevel),
           weight: getStrokeWeight(currentLevel),
           opacity: getStrokeOpacity(currentLevel),
+          dashArray: lockedAreasRef.current?.has(areaCode) ? LOCKED_DASH_ARRAY : undefined,
         });
       }
     });
   };
 
-  const getAreaCode = (feature: any, level: AdminLevel): string => {
-    switch (level) {
-      case 'provinces':
-        return feature.properties.pro_code;
-      case 'districts':
-        return feature.properties.amp_code;
-      case 'subdistricts':
-        return feature.properties.tam_code;
-      default:
-        return '';
-    }
-  };
-
-  const getAreaName = (feature: any, level: AdminLevel): string => {
-    switch (level) {
-      case 'provinces':
-        return feature.properties.pro_th;
-      case 'districts':
-        return feature.properties.amp_th;
-      case 'subdistricts':
-        return feature.properties.tam_th;
-      default:
-        return '';
-    }
+  // Painted colors override classified colors; unpainted areas stay white
+  const getFillColor = (areaCode: string): string => {
+    return areaColorsRef.current.get(areaCode)
+      || classifiedColorsRef.current?.get(areaCode)
+      || '#ffffff';
   };
 
   const getStrokeWeight = (level: AdminLevel): number => {
@@ -606,28 +1238,6 @@ export default function SimpleMap({
     }
   };
 
-  const getLabelSize = (level: AdminLevel): number => {
-    if (!mapRef.current) return 10;
-
-    const zoom = mapRef.current.getZoom();
-    const baseSize = (() => {
-      switch (level) {
-        case 'provinces':
-          return 8;
-        case 'districts':
-          return 4;
-        case 'subdistricts':
-          return 4;
-        default:
-          return 6;
-      }
-    })();
-
-    // Scale font size more aggressively with zoom level
-    const zoomFactor = Math.max(0.6, Math.min(3, zoom / 6));
-    return Math.round(baseSize * zoomFactor);
-  };
-
   const getDefaultStyle = () => ({
     fillColor: '#ffffff',
     fillOpacity: 0,
@@ -637,12 +1247,82 @@ export default function SimpleMap({
   });
 
   return (
-    <div className="w-full h-full bg-white">
+    <div className="relative w-full h-full bg-white">
       <div
         ref={mapContainerRef}
         className="w-full h-full"
         style={{ minHeight: '400px' }}
       />
+      {contextMenu && (
+        <div
+          className="absolute z-[1000] bg-white border border-gray-300 rounded-sm shadow-lg py-1 text-xs"
+          style={{ left: contextMenu.x, top: contextMenu.y, width: CONTEXT_MENU_WIDTH }}
+          onContextMenu={(e) => e.preventDefault()}
+        >
+          <div className="px-3 py-1 text-[10px] text-gray-500 border-b border-gray-200 truncate">
+            {contextMenu.areaName}
+          </div>
+          {contextMenu.groups.map((group) => (
+            <div key={`${group.property}:${group.value}`} className="flex items-center">
+              <button
+                onClick={() => {
+                  paintGroup(group, selectedColorRef.current);
+                  setContextMenu(null);
+                }}
+                className="flex-1 min-w-0 text-left px-3 py-1.5 hover:bg-gray-100 flex items-center space-x-2"
+              >
+                <span
+                  className="w-3 h-3 border border-gray-400 rounded-sm flex-shrink-0"
+                  style={{ backgroundColor: selectedColor }}
+                />
+                <span className="truncate">ลงสีทั้ง{group.label}</span>
+              </button>
+              <button
+                onClick={() => {
+                  paintGroup(group, null);
+                  setContextMenu(null);
+                }}
+                className="px-2 py-1.5 text-gray-500 hover:bg-gray-100 hover:text-red-600 flex-shrink-0"
+                title={`ล้างสีทั้ง${group.label}`}
+              >
+                ล้าง
+              </button>
+            </div>
+          ))}
+          {onShowNeighbors && (
+            <button
+              onClick={() => {
+                onShowNeighbors(contextMenu.areaCode);
+                setContextMenu(null);
+              }}
+              className="w-full text-left px-3 py-1.5 hover:bg-gray-100 border-t border-gray-200"
+            >
+              แสดงพื้นที่ข้างเคียง
+            </button>
+          )}
+          {onToggleAreaLock && (
+            <button
+              onClick={() => {
+                onToggleAreaLock(contextMenu.areaCode);
+                setContextMenu(null);
+              }}
+              className="w-full text-left px-3 py-1.5 hover:bg-gray-100 border-t border-gray-200"
+            >
+              {lockedAreas?.has(contextMenu.areaCode) ? 'ปลดล็อกสี' : 'ล็อกสี (ลงสีอัตโนมัติจะไม่เปลี่ยน)'}
+            </button>
+          )}
+        </div>
+      )}
+      {legendContainer && createPortal(
+        <MapLegend
+          title={legendTitle}
+          entries={legendEntries}
+          onTitleChange={(title) => onLegendTitleChange?.(title)}
+          onLabelChange={(color, label) => onLegendLabelChange?.(color, label)}
+          onPositionChange={(position) => onLegendPositionChange?.(position)}
+        />,
+        legendContainer
+      )}
     </div>
   );
 }
\ No newline at end of file
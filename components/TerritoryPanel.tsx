@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Download, Shapes } from 'lucide-react';
+import { GISFormat, GIS_FORMATS } from '@/lib/gis-export';
+import { Territory } from '@/lib/territory';
+
+interface TerritoryPanelProps {
+  isEnabled: boolean;
+  isLoading: boolean;
+  territories: Territory[];
+  onToggle: (enabled: boolean) => void;
+  onExport: (format: GISFormat) => void;
+}
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('th-TH', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export default function TerritoryPanel({
+  isEnabled,
+  isLoading,
+  territories,
+  onToggle,
+  onExport,
+}: TerritoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest('.territory-dropdown')) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const totalMembers = territories.reduce((sum, territory) => sum + territory.memberCodes.length, 0);
+
+  return (
+    <div className="relative territory-dropdown">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-1 sm:space-x-1.5 px-2 sm:px-2.5 py-1.5 border transition-all duration-200 rounded-sm flex-shrink-0 ${isEnabled
+          ? 'border-teal-400 bg-teal-50 hover:bg-teal-100'
+          : 'border-gray-300 bg-white hover:bg-teal-50 hover:border-teal-300'
+          }`}
+        title="รวมพื้นที่สีเดียวกันเป็นเขต"
+      >
+        <Shapes className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-teal-600" />
+        <span className="text-xs font-medium text-teal-600 hidden sm:inline">เขต</span>
+        <ChevronDown
+          className={`h-3 w-3 sm:h-3.5 sm:w-3.5 text-teal-600 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 bg-white border border-gray-300 rounded-sm shadow-lg w-80 z-500">
+          <label className="flex items-center space-x-2 p-2 border-b border-gray-200 text-xs cursor-pointer">
+            <input type="checkbox" checked={isEnabled} onChange={(e) => onToggle(e.target.checked)} />
+            <span>แสดงเขต (รวมพื้นที่ที่ลงสีเดียวกัน)</span>
+          </label>
+
+          {isEnabled && (
+            <>
+              <div className="max-h-72 overflow-y-auto">
+                {isLoading ? (
+                  <div className="p-3 text-xs text-gray-500">กำลังรวมพื้นที่...</div>
+                ) : territories.length === 0 ? (
+                  <div className="p-3 text-xs text-gray-500">ยังไม่มีพื้นที่ที่ลงสีในระดับนี้</div>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-500 border-b border-gray-200">
+                        <th className="text-left font-normal px-2 py-1">เขต</th>
+                        <th className="text-right font-normal px-2 py-1">พื้นที่</th>
+                        <th className="text-right font-normal px-2 py-1">ตร.กม.</th>
+                        <th className="text-right font-normal px-2 py-1">เส้นรอบรูป กม.</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {territories.map((territory) => (
+                        <tr key={territory.color} className="border-b border-gray-100">
+                          <td className="px-2 py-1">
+                            <div className="flex items-center space-x-1.5 min-w-0">
+                              <div
+                                className="w-3 h-3 border border-gray-400 rounded-sm flex-shrink-0"
+                                style={{ backgroundColor: territory.color }}
+                              />
+                              <span className="truncate" title={territory.label || territory.color}>
+                                {territory.label || territory.color}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="px-2 py-1 text-right">{formatNumber(territory.memberCodes.length)}</td>
+                          <td className="px-2 py-1 text-right">{formatNumber(territory.areaSqKm)}</td>
+                          <td className="px-2 py-1 text-right">{formatNumber(territory.perimeterKm)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {territories.length > 0 && (
+                <div className="p-2 border-t border-gray-200 space-y-1">
+                  <div className="text-[10px] text-gray-500">
+                    {territories.length} เขต · {formatNumber(totalMembers)} พื้นที่
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {GIS_FORMATS.map((item) => (
+                      <button
+                        key={item.value}
+                        onClick={() => onExport(item.value)}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs border border-gray-300 hover:bg-gray-100 rounded-sm"
+                      >
+                        <Download className="h-3 w-3 text-gray-500" />
+                        <span>{item.label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// Search by address ("ต.สุเทพ อ.เมือง จ.เชียงใหม่", "Su Thep, Mueang Chiang Mai,
+// Chiang Mai"). One part of the address names the area itself and every other
+// part has to name one of the areas containing it, so a tambon name shared by
+// dozens of places narrows down to the one in the given amphoe and changwat.
+import { AdminUnitLevel, adminNameLevel, splitAddress } from "./admin-names";
+import { getAreaCode } from "./geometry";
+import { SearchIndex, matchScore, searchKey } from "./search-index";
+import { AdminLevel, GeoJSONProperties, SearchResult } from "./types";
+
+interface AddressPart {
+  key: string;
+  // Level named by the part's unit word, if it has one
+  level: AdminUnitLevel | null;
+  text: string;
+}
+
+interface ParentArea {
+  level: AdminUnitLevel;
+  keys: string[];
+}
+
+// Matches considered for the part naming the area itself
+const CANDIDATE_LIMIT = 500;
+const BANGKOK_PROVINCE_CODE = "10";
+
+// Properties naming the areas that contain an area of each level
+const PARENT_NAME_PROPERTIES: Partial<Record<AdminLevel, [AdminUnitLevel, string[]][]>> = {
+  districts: [["provinces", ["pro_th", "pro_en"]]],
+  subdistricts: [
+    ["districts", ["amp_th", "amp_en"]],
+    ["provinces", ["pro_th", "pro_en"]],
+  ],
+};
+
+const text = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+
+export const parseAddress = (query: string): AddressPart[] =>
+  splitAddress(query)
+    .map((part) => ({ key: searchKey(part), level: adminNameLevel(part), text: part }))
+    .filter((part) => part.key !== "");
+
+const parentAreas = (properties: GeoJSONProperties, level: AdminLevel): ParentArea[] =>
+  (PARENT_NAME_PROPERTIES[level] || []).map(([parentLevel, names]) => ({
+    level: parentLevel,
+    keys: names.map((name) => searchKey(text(properties[name]))).filter(Boolean),
+  }));
+
+// Lowest total score over the ways of giving each part a parent of its own;
+// Infinity when some part names none of them
+const assignParents = (parts: AddressPart[], parents: ParentArea[]): number => {
+  if (parts.length === 0) return 0;
+  const [part, ...rest] = parts;
+  let best = Infinity;
+  parents.forEach((parent, index) => {
+    if (part.level && part.level !== parent.level) return;
+    const score = Math.min(...parent.keys.map((key) => matchScore(part.key, key)));
+    if (score === Infinity) return;
+    const others = parents.filter((_, other) => other !== index);
+    best = Math.min(best, score + assignParents(rest, others));
+  });
+  return best;
+};
+
+// Areas that satisfy every part of a multi-part address, best first; empty
+// when the query has a single part or nothing fits all of them
+export const searchAddress = (
+  index: SearchIndex<SearchResult>,
+  query: string,
+  limit: number
+): SearchResult[] => {
+  const parts = parseAddress(query);
+  if (parts.length < 2) return [];
+
+  const best = new Map<string, { result: SearchResult; score: number; leaf: number }>();
+  parts.forEach((leaf, leafIndex) => {
+    const others = parts.filter((_, index) => index !== leafIndex);
+    index.search(leaf.text, CANDIDATE_LIMIT).forEach(({ value, score }) => {
+      if (leaf.level && leaf.level !== value.level) return;
+      const parents = parentAreas(value.feature.properties, value.level);
+      if (parents.length < others.length) return;
+
+      const total = score + assignParents(others, parents);
+      if (total === Infinity) return;
+      const key = `${value.level}:${getAreaCode(value.feature.properties, value.level)}`;
+      const current = best.get(key);
+      if (!current || total < current.score) best.set(key, { result: value, score: total, leaf: leafIndex });
+    });
+  });
+
+  // Addresses are written smallest area first, so that reading wins ties
+  return Array.from(best.values())
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.leaf - b.leaf ||
+        a.result.displayName.localeCompare(b.result.displayName, "th")
+    )
+    .slice(0, limit)
+    .map(({ result }) => result);
+};
+
+// "ต.สุเทพ อ.เมืองเชียงใหม่ จ.เชียงใหม่"; Bangkok uses แขวง and เขต and no จ.
+export const formatAddress = (properties: GeoJSONProperties, level: AdminLevel): string => {
+  const isBangkok = text(properties.pro_code) === BANGKOK_PROVINCE_CODE;
+  const parts: string[] = [];
+  if (level === "subdistricts") parts.push(`${isBangkok ? "แขวง" : "ต."}${text(properties.tam_th)}`);
+  if (level === "subdistricts" || level === "districts") {
+    parts.push(`${isBangkok ? "เขต" : "อ."}${text(properties.amp_th)}`);
+  }
+  parts.push(isBangkok ? text(properties.pro_th) : `จ.${text(properties.pro_th)}`);
+  return parts.join(" ");
+};
@@ -0,0 +1,48 @@
+// Adjacency between the areas of one level. Neighboring areas in the boundary
+// data share their border vertices, so two areas touch where the same segment
+// (in either direction) appears in both outlines; the lengths of those
+// segments add up to the shared border. Areas meeting only at a corner are not
+// neighbors.
+import { distanceKm, polygonsOf } from "./geometry";
+import { GeoJSONGeometry } from "./types";
+
+export interface AdjacencyInput {
+  code: string;
+  geometry: GeoJSONGeometry;
+}
+
+// Neighbor codes of each area with the shared border length in kilometers
+export type AdjacencyIndex = Map<string, Map<string, number>>;
+
+const pointKey = (point: number[]) => `${point[0]},${point[1]}`;
+
+export const buildAdjacency = (areas: AdjacencyInput[]): AdjacencyIndex => {
+  const index: AdjacencyIndex = new Map(areas.map((area) => [area.code, new Map<string, number>()]));
+  // Undirected segment → the first area seen with it
+  const owners = new Map<string, string>();
+
+  areas.forEach(({ code, geometry }) =>
+    polygonsOf(geometry).forEach((polygon) =>
+      polygon.forEach((ring) => {
+        for (let i = 1; i < ring.length; i++) {
+          const from = pointKey(ring[i - 1]);
+          const to = pointKey(ring[i]);
+          if (from === to) continue;
+          const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+          const owner = owners.get(key);
+          if (owner === undefined) {
+            owners.set(key, code);
+          } else if (owner !== code) {
+            const length = distanceKm(ring[i - 1], ring[i]);
+            const ownerNeighbors = index.get(owner)!;
+            const neighbors = index.get(code)!;
+            ownerNeighbors.set(code, (ownerNeighbors.get(code) || 0) + length);
+            neighbors.set(owner, (neighbors.get(owner) || 0) + length);
+          }
+        }
+      })
+    )
+  );
+
+  return index;
+};
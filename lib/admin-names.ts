@@ -0,0 +1,156 @@
+// Admin names as people write them: with or without the unit word
+// ("จังหวัดเชียงใหม่", "จ.เชียงใหม่", "Changwat Chiang Mai", "Chiang Mai Province"),
+// Bangkok's khet/khwaeng instead of amphoe/tambon, and several romanizations of
+// เมือง. Everything that compares names (search, the filter lists, the name
+// importer) goes through these so that all of them accept the same spellings.
+import { AdminLevel } from "./types";
+
+export type AdminUnitLevel = Extract<AdminLevel, "provinces" | "districts" | "subdistricts">;
+
+// Longest first, so "กิ่งอำเภอ" wins over "อำเภอ"
+const THAI_PREFIXES: [string, AdminUnitLevel][] = [
+  ["กิ่งอำเภอ", "districts"], ["จังหวัด", "provinces"], ["อำเภอ", "districts"],
+  ["ตำบล", "subdistricts"], ["แขวง", "subdistricts"], ["เขต", "districts"],
+  ["กิ่งอ.", "districts"], ["จ.", "provinces"], ["อ.", "districts"], ["ต.", "subdistricts"],
+];
+
+// "เขต" also starts ordinary names (เขตอุดมศักดิ์), so as a unit word it has to
+// be followed by a space or name one of Bangkok's districts
+const KHET = "เขต";
+const BANGKOK_DISTRICTS = new Set([
+  "พระนคร", "ดุสิต", "หนองจอก", "บางรัก", "บางเขน", "บางกะปิ", "ปทุมวัน", "ป้อมปราบศัตรูพ่าย",
+  "พระโขนง", "มีนบุรี", "ลาดกระบัง", "ยานนาวา", "สัมพันธวงศ์", "พญาไท", "ธนบุรี", "บางกอกใหญ่",
+  "ห้วยขวาง", "คลองสาน", "ตลิ่งชัน", "บางกอกน้อย", "บางขุนเทียน", "ภาษีเจริญ", "หนองแขม",
+  "ราษฎร์บูรณะ", "บางพลัด", "ดินแดง", "บึงกุ่ม", "สาทร", "บางซื่อ", "จตุจักร", "บางคอแหลม",
+  "ประเวศ", "คลองเตย", "สวนหลวง", "จอมทอง", "ดอนเมือง", "ราชเทวี", "ลาดพร้าว", "วัฒนา", "บางแค",
+  "หลักสี่", "สายไหม", "คันนายาว", "สะพานสูง", "วังทองหลาง", "คลองสามวา", "บางนา", "ทวีวัฒนา",
+  "ทุ่งครุ", "บางบอน",
+]);
+
+const ENGLISH_PREFIXES: [string, AdminUnitLevel][] = [
+  ["changwat", "provinces"], ["king amphoe", "districts"], ["amphoe", "districts"],
+  ["amphur", "districts"], ["amphor", "districts"], ["amp.", "districts"],
+  ["tambon", "subdistricts"], ["tambol", "subdistricts"], ["khwaeng", "subdistricts"],
+  ["kwaeng", "subdistricts"], ["khet", "districts"],
+];
+const ENGLISH_SUFFIXES: [string, AdminUnitLevel][] = [
+  ["province", "provinces"], ["sub-district", "subdistricts"], ["subdistrict", "subdistricts"],
+  ["district", "districts"],
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const unitAlternatives = (units: [string, AdminUnitLevel][]): string =>
+  units.map(([unit]) => escapeRegExp(unit)).join("|");
+
+const ENGLISH_PREFIX_PATTERN = new RegExp(`^(${unitAlternatives(ENGLISH_PREFIXES)})(\\s+|\\.\\s*|$)`, "i");
+const ENGLISH_SUFFIX_PATTERN = new RegExp(`\\s+(${unitAlternatives(ENGLISH_SUFFIXES)})$`, "i");
+
+// Unit words anywhere in an address, for cutting it into parts
+const THAI_UNIT_PATTERN = new RegExp(unitAlternatives(THAI_PREFIXES), "g");
+const ENGLISH_UNIT_PATTERN = new RegExp(
+  `(^|[^a-z])(?:(${unitAlternatives(ENGLISH_PREFIXES)})|(${unitAlternatives(ENGLISH_SUFFIXES)}))(?![a-z])`,
+  "gi"
+);
+// Postal codes and the country name say nothing about the area
+const ADDRESS_NOISE_PATTERN = /\b\d{5}\b|ประเทศไทย|\bthailand\b/gi;
+const THAI_PATTERN = /[\u0E00-\u0E7F]/;
+
+// Romanizations of เมือง ("Muang Chiang Mai")
+const MUEANG_PATTERN = /\b(mueang|muang|meuang|muaeng|mouang)\b/gi;
+
+// Short forms of Bangkok's name, compared without dots and spaces
+const NAME_ALIASES: Record<string, string> = {
+  "กทม": "กรุงเทพมหานคร",
+  "กรุงเทพฯ": "กรุงเทพมหานคร",
+  "กรุงเทพ": "กรุงเทพมหานคร",
+};
+
+const thaiPrefixOf = (name: string): [string, AdminUnitLevel] | undefined =>
+  THAI_PREFIXES.find(([prefix]) => {
+    if (!name.startsWith(prefix)) return false;
+    if (prefix !== KHET) return true;
+    const rest = name.slice(prefix.length);
+    return /^\s/.test(rest) || BANGKOK_DISTRICTS.has(rest.trim());
+  });
+
+const stripPrefix = (name: string): string => {
+  const thai = thaiPrefixOf(name);
+  if (thai) return name.slice(thai[0].length).trim();
+  return name.replace(ENGLISH_PREFIX_PATTERN, "").trim();
+};
+
+// The name without unit words, with one spelling of เมือง and Bangkok's full
+// name; case and inner spaces are kept. A bare unit word stays as it is.
+export const canonicalAdminName = (name: string): string => {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  const stripped = stripPrefix(trimmed).replace(ENGLISH_SUFFIX_PATTERN, "").trim() || trimmed;
+  const alias = NAME_ALIASES[stripped.replace(/[\s.]/g, "")];
+  return alias || stripped.replace(MUEANG_PATTERN, "Mueang");
+};
+
+// Comparison key: canonical, lower case, without spaces and dots
+export const normalizeAdminName = (name: string): string =>
+  canonicalAdminName(name).toLowerCase().replace(/[\s.]/g, "");
+
+// Whether any of the names contains the typed text, e.g. "อ.เมือง" in "เมืองเชียงใหม่"
+export const adminNameIncludes = (names: string[], query: string): boolean => {
+  const key = normalizeAdminName(query);
+  return key === "" || names.some((name) => normalizeAdminName(name).includes(key));
+};
+
+const unitLevel = (units: [string, AdminUnitLevel][], word: string): AdminUnitLevel | null =>
+  units.find(([unit]) => unit === word.toLowerCase())?.[1] || null;
+
+// The level a name's unit word stands for: "อ.เมือง" and "Mueang District" are districts
+export const adminNameLevel = (name: string): AdminUnitLevel | null => {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  const thai = thaiPrefixOf(trimmed);
+  if (thai) return thai[1];
+  const prefix = trimmed.match(ENGLISH_PREFIX_PATTERN);
+  if (prefix) return unitLevel(ENGLISH_PREFIXES, prefix[1]);
+  const suffix = trimmed.match(ENGLISH_SUFFIX_PATTERN);
+  return suffix ? unitLevel(ENGLISH_SUFFIXES, suffix[1]) : null;
+};
+
+const cutAt = (text: string, positions: number[]): string[] => {
+  const bounds = [0, ...positions.filter((position) => position > 0 && position < text.length), text.length];
+  return bounds.slice(1).map((end, index) => text.slice(bounds[index], end));
+};
+
+// Each unit word starts a part and takes the name after it; other words are
+// parts of their own since Thai names have no spaces. "เขต" only starts a part
+// at the start or after a space.
+const splitThaiAddress = (text: string): string[] => {
+  const starts = Array.from(text.matchAll(THAI_UNIT_PATTERN))
+    .filter((match) => match[0] !== KHET || match.index === 0 || /\s/.test(text[match.index! - 1]))
+    .map((match) => match.index!);
+  return cutAt(text, starts).flatMap((segment) => {
+    const unit = THAI_PREFIXES.find(([prefix]) => segment.startsWith(prefix));
+    if (!unit) return segment.split(/\s+/);
+    const [name = "", ...rest] = segment.slice(unit[0].length).trim().split(/\s+/);
+    return [unit[0] + name, ...rest];
+  });
+};
+
+// Prefixes ("Tambon", "Amphoe") start a part, suffixes ("District") end one
+const splitEnglishAddress = (text: string): string[] =>
+  cutAt(
+    text,
+    Array.from(text.matchAll(ENGLISH_UNIT_PATTERN)).map((match) =>
+      match[2] ? match.index! + match[1].length : match.index! + match[0].length
+    )
+  );
+
+const isBareUnit = (text: string): boolean =>
+  stripPrefix(text) === "" || unitLevel(ENGLISH_SUFFIXES, text) !== null;
+
+// The names in an address, smallest area first as written:
+// "ต.สุเทพ อ.เมือง จ.เชียงใหม่ 50200" → ["ต.สุเทพ", "อ.เมือง", "จ.เชียงใหม่"],
+// "Tambon Su Thep, Mueang Chiang Mai District" → ["Tambon Su Thep", "Mueang Chiang Mai District"]
+export const splitAddress = (address: string): string[] =>
+  address
+    .replace(ADDRESS_NOISE_PATTERN, " ")
+    .split(/[,;\n]+/)
+    .flatMap((chunk) => (THAI_PATTERN.test(chunk) ? splitThaiAddress(chunk) : splitEnglishAddress(chunk)))
+    .map((part) => part.trim().replace(/\s+/g, " "))
+    .filter((part) => part !== "" && !isBareUnit(part));
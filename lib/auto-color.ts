@@ -0,0 +1,153 @@
+// Automatic map coloring: give every area a palette color that none of its
+// neighbors has. Areas are colored most-constrained first (DSatur) with
+// backtracking, which finds a proper coloring of the admin maps with four
+// colors almost immediately. Locked areas keep their color and constrain their
+// neighbors. When the search gives up (too few colors, or locked colors that
+// box an area in), every area gets the color shared with the fewest neighbors.
+import { AdjacencyIndex } from "./adjacency";
+
+export interface AutoColorResult {
+  // Colors of every area that is not locked
+  colors: Map<string, string>;
+  // Neighboring pairs left with the same color
+  conflicts: number;
+}
+
+const MAX_SEARCH_STEPS = 200000;
+
+const normalizeColor = (color: string) => color.trim().toLowerCase();
+
+export const autoColor = (
+  adjacency: AdjacencyIndex,
+  palette: string[],
+  locked: Map<string, string>
+): AutoColorResult => {
+  // Palette colors by their normalized form, first spelling wins
+  const paletteColors = new Map<string, string>();
+  palette.forEach((color) => {
+    if (color.trim() && !paletteColors.has(normalizeColor(color))) paletteColors.set(normalizeColor(color), color);
+  });
+  const options = Array.from(paletteColors.keys());
+
+  const codes = Array.from(adjacency.keys());
+  const free = codes.filter((code) => !locked.has(code));
+  const assigned = new Map<string, string>();
+  const usage = new Map(options.map((color) => [color, 0]));
+  // How many neighbors of each area have each color
+  const neighborColors = new Map(codes.map((code) => [code, new Map<string, number>()]));
+  // Uncolored free areas by saturation (number of distinct neighbor colors)
+  const bySaturation: Set<string>[] = [new Set(free)];
+
+  const isOpen = (code: string) => !assigned.has(code) && !locked.has(code);
+  const moveBucket = (code: string, from: number, to: number) => {
+    bySaturation[from].delete(code);
+    while (bySaturation.length <= to) bySaturation.push(new Set());
+    bySaturation[to].add(code);
+  };
+
+  const setColor = (code: string, color: string | null) => {
+    const previous = assigned.get(code);
+    if (previous !== undefined) {
+      assigned.delete(code);
+      usage.set(previous, (usage.get(previous) || 0) - 1);
+      adjacency.get(code)!.forEach((_, neighbor) => {
+        const counts = neighborColors.get(neighbor)!;
+        const count = (counts.get(previous) || 0) - 1;
+        if (count > 0) {
+          counts.set(previous, count);
+        } else {
+          counts.delete(previous);
+          if (isOpen(neighbor)) moveBucket(neighbor, counts.size + 1, counts.size);
+        }
+      });
+      if (!locked.has(code)) moveBucket(code, 0, neighborColors.get(code)!.size);
+    }
+    if (color === null) return;
+
+    if (!locked.has(code)) bySaturation[neighborColors.get(code)!.size].delete(code);
+    assigned.set(code, color);
+    usage.set(color, (usage.get(color) || 0) + 1);
+    adjacency.get(code)!.forEach((_, neighbor) => {
+      const counts = neighborColors.get(neighbor)!;
+      const count = counts.get(color) || 0;
+      counts.set(color, count + 1);
+      if (count === 0 && isOpen(neighbor)) moveBucket(neighbor, counts.size - 1, counts.size);
+    });
+  };
+  locked.forEach((color, code) => {
+    if (adjacency.has(code)) setColor(code, normalizeColor(color));
+  });
+
+  // Uncolored area with the most distinct neighbor colors, then the most neighbors
+  const pickNext = (): string | null => {
+    for (let saturation = bySaturation.length - 1; saturation >= 0; saturation--) {
+      let best: string | null = null;
+      let bestDegree = -1;
+      bySaturation[saturation].forEach((code) => {
+        const degree = adjacency.get(code)!.size;
+        if (degree > bestDegree) {
+          best = code;
+          bestDegree = degree;
+        }
+      });
+      if (best !== null) return best;
+    }
+    return null;
+  };
+
+  // Least used colors first keeps the map balanced
+  const candidates = (code: string, allowConflicts: boolean): string[] => {
+    const counts = neighborColors.get(code)!;
+    return options
+      .filter((color) => allowConflicts || !counts.has(color))
+      .sort(
+        (a, b) =>
+          (allowConflicts ? (counts.get(a) || 0) - (counts.get(b) || 0) : 0) ||
+          (usage.get(a) || 0) - (usage.get(b) || 0)
+      );
+  };
+
+  // Backtracking search with an explicit stack
+  const stack: { code: string; choices: string[]; next: number }[] = [];
+  let steps = 0;
+  let solved = options.length > 0;
+  while (solved) {
+    const code = pickNext();
+    if (code === null) break;
+    stack.push({ code, choices: candidates(code, false), next: 0 });
+
+    // Advance the top frame, unwinding exhausted ones
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < frame.choices.length) {
+        setColor(frame.code, frame.choices[frame.next++]);
+        break;
+      }
+      setColor(frame.code, null);
+      stack.pop();
+    }
+    if (stack.length === 0 || ++steps > MAX_SEARCH_STEPS) solved = false;
+  }
+
+  if (!solved && options.length > 0) {
+    free.forEach((code) => setColor(code, null));
+    for (let code = pickNext(); code !== null; code = pickNext()) {
+      setColor(code, candidates(code, true)[0]);
+    }
+  }
+
+  let conflicts = 0;
+  adjacency.forEach((neighbors, code) => {
+    const color = assigned.get(code);
+    neighbors.forEach((_, neighbor) => {
+      if (code < neighbor && color !== undefined && assigned.get(neighbor) === color) conflicts++;
+    });
+  });
+
+  const colors = new Map<string, string>();
+  free.forEach((code) => {
+    const color = assigned.get(code);
+    if (color !== undefined) colors.set(code, paletteColors.get(color)!);
+  });
+  return { colors, conflicts };
+};
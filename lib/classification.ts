@@ -0,0 +1,293 @@
+// Choropleth classification: turns a table of area values into class breaks
+// and a color per area code.
+
+export type ClassificationMethod =
+  | "equal-interval"
+  | "quantile"
+  | "jenks"
+  | "manual";
+
+export type ColorRampType = "sequential" | "diverging";
+
+export interface ColorRamp {
+  id: string;
+  name: string;
+  type: ColorRampType;
+  colors: string[];
+}
+
+export interface ChoroplethSettings {
+  method: ClassificationMethod;
+  classCount: number;
+  rampId: string;
+  reverseRamp: boolean;
+  manualBreaks: number[];
+}
+
+export interface ClassificationResult {
+  // Class boundaries, ascending. Class i covers (breaks[i], breaks[i + 1]],
+  // with the first class also including the minimum.
+  breaks: number[];
+  colors: string[];
+}
+
+export const CLASSIFICATION_METHODS: {
+  value: ClassificationMethod;
+  label: string;
+}[] = [
+  { value: "equal-interval", label: "ช่วงเท่ากัน" },
+  { value: "quantile", label: "ควอนไทล์" },
+  { value: "jenks", label: "Natural breaks (Jenks)" },
+  { value: "manual", label: "กำหนดเอง" },
+];
+
+// Anchor colors from ColorBrewer, interpolated to the requested class count
+export const COLOR_RAMPS: ColorRamp[] = [
+  { id: "blues", name: "Blues", type: "sequential", colors: ["#eff3ff", "#bdd7e7", "#6baed6", "#3182bd", "#08519c"] },
+  { id: "greens", name: "Greens", type: "sequential", colors: ["#edf8e9", "#bae4b3", "#74c476", "#31a354", "#006d2c"] },
+  { id: "reds", name: "Reds", type: "sequential", colors: ["#fee5d9", "#fcae91", "#fb6a4a", "#de2d26", "#a50f15"] },
+  { id: "oranges", name: "Oranges", type: "sequential", colors: ["#feedde", "#fdbe85", "#fd8d3c", "#e6550d", "#a63603"] },
+  { id: "purples", name: "Purples", type: "sequential", colors: ["#f2f0f7", "#cbc9e2", "#9e9ac8", "#756bb1", "#54278f"] },
+  { id: "ylorrd", name: "YlOrRd", type: "sequential", colors: ["#ffffb2", "#fecc5c", "#fd8d3c", "#f03b20", "#bd0026"] },
+  { id: "rdbu", name: "RdBu", type: "diverging", colors: ["#ca0020", "#f4a582", "#f7f7f7", "#92c5de", "#0571b0"] },
+  { id: "brbg", name: "BrBG", type: "diverging", colors: ["#a6611a", "#dfc27d", "#f5f5f5", "#80cdc1", "#018571"] },
+  { id: "piyg", name: "PiYG", type: "diverging", colors: ["#d01c8b", "#f1b6da", "#f7f7f7", "#b8e186", "#4dac26"] },
+  { id: "rdylgn", name: "RdYlGn", type: "diverging", colors: ["#d7191c", "#fdae61", "#ffffbf", "#a6d96a", "#1a9641"] },
+];
+
+export const MIN_CLASS_COUNT = 2;
+export const MAX_CLASS_COUNT = 9;
+
+const JENKS_SAMPLE_SIZE = 1000;
+
+export const DEFAULT_CHOROPLETH_SETTINGS: ChoroplethSettings = {
+  method: "quantile",
+  classCount: 5,
+  rampId: "blues",
+  reverseRamp: false,
+  manualBreaks: [],
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgbToHex = (rgb: number[]): string =>
+  "#" +
+  rgb
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("");
+
+export const getColorRamp = (rampId: string): ColorRamp =>
+  COLOR_RAMPS.find((ramp) => ramp.id === rampId) || COLOR_RAMPS[0];
+
+// Sample `count` evenly spaced colors along the ramp's anchor colors
+export const sampleColorRamp = (
+  ramp: ColorRamp,
+  count: number,
+  reverse: boolean = false
+): string[] => {
+  const anchors = ramp.colors.map(hexToRgb);
+  const colors: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const t = count === 1 ? 0.5 : i / (count - 1);
+    const position = t * (anchors.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, anchors.length - 1);
+    const fraction = position - lower;
+
+    colors.push(
+      rgbToHex(
+        anchors[lower].map(
+          (channel, c) => channel + (anchors[upper][c] - channel) * fraction
+        )
+      )
+    );
+  }
+
+  return reverse ? colors.reverse() : colors;
+};
+
+const equalIntervalBreaks = (sorted: number[], classCount: number): number[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const step = (max - min) / classCount;
+  const breaks = [min];
+  for (let i = 1; i < classCount; i++) {
+    breaks.push(min + step * i);
+  }
+  breaks.push(max);
+  return breaks;
+};
+
+const quantileBreaks = (sorted: number[], classCount: number): number[] => {
+  const breaks = [sorted[0]];
+  for (let i = 1; i < classCount; i++) {
+    const position = (sorted.length - 1) * (i / classCount);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    breaks.push(
+      sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+    );
+  }
+  breaks.push(sorted[sorted.length - 1]);
+  return breaks;
+};
+
+// Fisher-Jenks optimal classification (minimizes within-class variance)
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+  const n = sorted.length;
+  const lowerClassLimits: number[][] = [];
+  const varianceCombinations: number[][] = [];
+
+  for (let i = 0; i <= n; i++) {
+    lowerClassLimits.push(new Array(classCount + 1).fill(0));
+    varianceCombinations.push(new Array(classCount + 1).fill(i < 2 ? 0 : Infinity));
+  }
+  for (let j = 1; j <= classCount; j++) {
+    lowerClassLimits[1][j] = 1;
+    varianceCombinations[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let weight = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lowerClassLimit = l - m + 1;
+      const value = sorted[lowerClassLimit - 1];
+
+      weight++;
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / weight;
+
+      const previous = lowerClassLimit - 1;
+      if (previous !== 0) {
+        for (let j = 2; j <= classCount; j++) {
+          const candidate = variance + varianceCombinations[previous][j - 1];
+          if (varianceCombinations[l][j] >= candidate) {
+            lowerClassLimits[l][j] = lowerClassLimit;
+            varianceCombinations[l][j] = candidate;
+          }
+        }
+      }
+    }
+
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  const breaks = new Array(classCount + 1).fill(0);
+  breaks[classCount] = sorted[n - 1];
+  breaks[0] = sorted[0];
+
+  let k = n;
+  for (let j = classCount; j >= 2; j--) {
+    const index = lowerClassLimits[k][j] - 2;
+    breaks[j - 1] = sorted[Math.max(index, 0)];
+    k = lowerClassLimits[k][j] - 1;
+  }
+
+  return breaks;
+};
+
+export const computeBreaks = (
+  values: number[],
+  settings: ChoroplethSettings
+): number[] => {
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  if (settings.method === "manual") {
+    const inner = settings.manualBreaks
+      .filter((b) => Number.isFinite(b) && b > min && b < max)
+      .sort((a, b) => a - b);
+    return [min, ...Array.from(new Set(inner)), max];
+  }
+
+  // Never ask for more classes than there are distinct values
+  const distinctCount = new Set(sorted).size;
+  const classCount = Math.max(1, Math.min(settings.classCount, distinctCount));
+  if (classCount === 1) return [min, max];
+
+  switch (settings.method) {
+    case "equal-interval":
+      return equalIntervalBreaks(sorted, classCount);
+    case "quantile":
+      return quantileBreaks(sorted, classCount);
+    case "jenks": {
+      // Jenks is O(k·n²); an evenly spaced sample of the sorted values keeps
+      // subdistrict-sized tables interactive while preserving the distribution
+      if (sorted.length <= JENKS_SAMPLE_SIZE) {
+        return jenksBreaks(sorted, classCount);
+      }
+      const step = (sorted.length - 1) / (JENKS_SAMPLE_SIZE - 1);
+      const sample = Array.from(
+        { length: JENKS_SAMPLE_SIZE },
+        (_, i) => sorted[Math.round(i * step)]
+      );
+      return jenksBreaks(sample, classCount);
+    }
+    default:
+      return [min, max];
+  }
+};
+
+export const classify = (
+  values: number[],
+  settings: ChoroplethSettings
+): ClassificationResult => {
+  const breaks = computeBreaks(values, settings);
+  const classCount = Math.max(breaks.length - 1, 0);
+  const colors = sampleColorRamp(
+    getColorRamp(settings.rampId),
+    classCount,
+    settings.reverseRamp
+  );
+  return { breaks, colors };
+};
+
+// Index of the class a value falls into, or -1 when there are no classes
+export const getClassIndex = (value: number, breaks: number[]): number => {
+  const classCount = breaks.length - 1;
+  if (classCount < 1) return -1;
+  for (let i = 1; i < classCount; i++) {
+    if (value <= breaks[i]) return i - 1;
+  }
+  return classCount - 1;
+};
+
+// Map every area code to the color of the class its value belongs to
+export const buildClassifiedColors = (
+  areaValues: Map<string, number>,
+  result: ClassificationResult
+): Map<string, string> => {
+  const colors = new Map<string, string>();
+  if (result.colors.length === 0) return colors;
+
+  areaValues.forEach((value, code) => {
+    const index = getClassIndex(value, result.breaks);
+    if (index >= 0) colors.set(code, result.colors[index]);
+  });
+
+  return colors;
+};
+
+export const formatBreakValue = (value: number): string =>
+  value.toLocaleString("th-TH", { maximumFractionDigits: 2 });
+
+export const formatClassRange = (
+  result: ClassificationResult,
+  index: number
+): string =>
+  `${formatBreakValue(result.breaks[index])} – ${formatBreakValue(
+    result.breaks[index + 1]
+  )}`;
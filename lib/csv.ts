@@ -0,0 +1,130 @@
+// CSV reading for imports: encoding and delimiter detection plus an RFC 4180
+// parser (quoted fields, "" escapes, CRLF, line breaks inside quotes).
+
+export type CSVDelimiter = "," | ";" | "\t";
+export type CSVEncoding = "utf-8" | "windows-874";
+
+export const CSV_DELIMITERS: { value: CSVDelimiter; label: string }[] = [
+  { value: ",", label: "จุลภาค (,)" },
+  { value: ";", label: "อัฒภาค (;)" },
+  { value: "\t", label: "แท็บ" },
+];
+
+// windows-874 is a superset of TIS-620, the usual encoding of Thai files saved by older Excel
+export const CSV_ENCODINGS: { value: CSVEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "windows-874", label: "TIS-620 / Windows-874" },
+];
+
+const DELIMITER_SAMPLE_LENGTH = 64 * 1024;
+const DELIMITER_SAMPLE_ROWS = 20;
+
+const hasUTF8BOM = (bytes: Uint8Array): boolean =>
+  bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+
+// UTF-8 when the bytes are valid UTF-8 (with or without BOM), otherwise Thai Windows-874
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (hasUTF8BOM(bytes)) return "utf-8";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-874";
+  }
+};
+
+export const decodeCSV = (bytes: Uint8Array, encoding: CSVEncoding): string => {
+  // TextDecoder drops a UTF-8 BOM by itself
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+};
+
+export const parseCSV = (text: string, delimiter: CSVDelimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    // Blank lines carry no data
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.trim() === "") {
+      // Opening quote; whitespace before it is dropped
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\r") {
+      endRow();
+      if (text[i + 1] === "\n") i++;
+    } else if (char === "\n") {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
+
+// The delimiter that splits the first rows into the same number (> 1) of fields most often
+export const detectDelimiter = (text: string): CSVDelimiter => {
+  const sample = text.slice(0, DELIMITER_SAMPLE_LENGTH);
+  let best: CSVDelimiter = ",";
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const rows = parseCSV(sample, value).slice(0, DELIMITER_SAMPLE_ROWS);
+    const counts = new Map<number, number>();
+    rows.forEach((row) => {
+      if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    });
+    const score = Math.max(0, ...counts.values());
+    if (score > bestScore) {
+      bestScore = score;
+      best = value;
+    }
+  });
+
+  return best;
+};
+
+export const readFileBytes = async (file: File): Promise<Uint8Array> =>
+  new Uint8Array(await file.arrayBuffer());
+
+// Numbers as written in spreadsheets: thousands separators and surrounding spaces allowed
+export const parseNumber = (raw: unknown): number => {
+  if (typeof raw === "number") return raw;
+  if (typeof raw !== "string") return NaN;
+  const cleaned = raw.trim().replace(/,/g, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+};
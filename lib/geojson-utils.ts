@@ -8,10 +8,37 @@ import {
   SubdistrictProperties,
   RegionProperties,
 } from "./types";
+import { AdjacencyIndex, buildAdjacency } from "./adjacency";
+import { formatAddress, searchAddress } from "./address-search";
+import { getAreaCode } from "./geometry";
+import { REGION_SCHEME_NAMES, regionNameEn, regionNameTh } from "./regions";
+import { AdminHierarchy, ReverseGeocoder } from "./reverse-geocode";
+import { SearchIndex } from "./search-index";
+
+// Finest first; reverse geocoding uses the first one that loads
+const GEOCODER_LEVELS: AdminLevel[] = ["subdistricts", "districts", "provinces"];
+
+// Equally good matches list larger areas first
+const SEARCH_LEVEL_RANK: Record<AdminLevel, number> = {
+  provinces: 0,
+  region_royin: 1,
+  region_nesdb: 1,
+  districts: 2,
+  subdistricts: 3,
+};
+
+export interface AdjacentArea {
+  code: string;
+  sharedBorderKm: number;
+}
 
 export class GeoJSONDataManager {
   readonly data: Map<AdminLevel, GeoJSONFeatureCollection> = new Map();
-  readonly searchIndex: Map<string, SearchResult[]> = new Map();
+  readonly searchIndex: SearchIndex<SearchResult> = new SearchIndex();
+  // Built on the first neighbor query of each level
+  private readonly adjacency: Map<AdminLevel, AdjacencyIndex> = new Map();
+  private readonly pendingLoads: Map<AdminLevel, Promise<GeoJSONFeatureCollection>> = new Map();
+  private geocoder: Promise<ReverseGeocoder> | null = null;
 
   async loadGeoJSONData(): Promise<void> {
     const levels: AdminLevel[] = [
@@ -22,24 +49,38 @@ export class GeoJSONDataManager {
       "region_nesdb",
     ];
 
-    const loadPromises = levels.map(async (level) => {
-      try {
-        const response = await fetch(`/data/${level}.geojson`);
-        if (!response.ok) {
-          throw new Error(
-            `Failed to load ${level}.geojson: ${response.statusText}`
-          );
-        }
-        const data = await response.json();
-        this.data.set(level, data);
-        this.buildSearchIndex(level, data);
-      } catch (error) {
-        console.error(`Error loading ${level} data:`, error);
-        throw error;
-      }
-    });
+    await Promise.all(levels.map((level) => this.loadLevel(level)));
+  }
 
-    await Promise.all(loadPromises);
+  // Load one level, once; concurrent callers share the request
+  loadLevel(level: AdminLevel): Promise<GeoJSONFeatureCollection> {
+    const loaded = this.data.get(level);
+    if (loaded) return Promise.resolve(loaded);
+
+    let pending = this.pendingLoads.get(level);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const response = await fetch(`/data/${level}.geojson`);
+          if (!response.ok) {
+            throw new Error(
+              `Failed to load ${level}.geojson: ${response.statusText}`
+            );
+          }
+          const data = await response.json();
+          this.data.set(level, data);
+          this.buildSearchIndex(level, data);
+          return data;
+        } catch (error) {
+          console.error(`Error loading ${level} data:`, error);
+          throw error;
+        } finally {
+          this.pendingLoads.delete(level);
+        }
+      })();
+      this.pendingLoads.set(level, pending);
+    }
+    return pending;
   }
 
   getData(level: AdminLevel): GeoJSONFeatureCollection | null {
@@ -59,19 +100,14 @@ export class GeoJSONDataManager {
     collection: GeoJSONFeatureCollection
   ): void {
     collection.features.forEach((feature) => {
-      const searchTerms = this.extractSearchTerms(feature, level);
-
-      searchTerms.forEach((term) => {
-        const normalizedTerm = this.normalizeSearchTerm(term);
-        if (!this.searchIndex.has(normalizedTerm)) {
-          this.searchIndex.set(normalizedTerm, []);
-        }
-
-        this.searchIndex.get(normalizedTerm)!.push({
+      this.searchIndex.add({
+        value: {
           feature,
           level,
           displayName: this.getDisplayName(feature, level),
-        });
+        },
+        names: this.extractSearchTerms(feature, level),
+        rank: SEARCH_LEVEL_RANK[level],
       });
     });
   }
@@ -100,9 +136,7 @@ export class GeoJSONDataManager {
           terms.push(
             districtProp.amp_th,
             districtProp.amp_en,
-            districtProp.amp_code,
-            districtProp.pro_th,
-            districtProp.pro_en
+            districtProp.amp_code
           );
         }
         break;
@@ -112,11 +146,7 @@ export class GeoJSONDataManager {
           terms.push(
             subdistrictProp.tam_th,
             subdistrictProp.tam_en,
-            subdistrictProp.tam_code,
-            subdistrictProp.amp_th,
-            subdistrictProp.amp_en,
-            subdistrictProp.pro_th,
-            subdistrictProp.pro_en
+            subdistrictProp.tam_code
           );
         }
         break;
@@ -124,8 +154,9 @@ export class GeoJSONDataManager {
       case "region_nesdb":
         {
           const regionProp = props as RegionProperties;
-          if (regionProp.reg_royin) terms.push(regionProp.reg_royin);
-          if (regionProp.reg_nesdb) terms.push(regionProp.reg_nesdb);
+          [regionProp.reg_royin, regionProp.reg_nesdb].forEach((name) => {
+            if (name) terms.push(regionNameTh(name), regionNameEn(name));
+          });
         }
         break;
     }
@@ -133,10 +164,6 @@ export class GeoJSONDataManager {
     return terms.filter(Boolean);
   }
 
-  private normalizeSearchTerm(term: string): string {
-    return term.toLowerCase().trim();
-  }
-
   private getDisplayName(feature: GeoJSONFeature, level: AdminLevel): string {
     const props = feature.properties;
 
@@ -145,65 +172,82 @@ export class GeoJSONDataManager {
         const provinceProp = props as ProvinceProperties;
         return `${provinceProp.pro_th} (${provinceProp.pro_en})`;
       }
-      case "districts": {
-        const districtProp = props as DistrictProperties;
-        return `${districtProp.amp_th}, ${districtProp.pro_th}`;
-      }
-      case "subdistricts": {
-        const subdistrictProp = props as SubdistrictProperties;
-        return `${subdistrictProp.tam_th}, ${subdistrictProp.amp_th}, ${subdistrictProp.pro_th}`;
-      }
-      case "region_royin": {
-        return (props as RegionProperties).reg_royin || "Unknown Region";
-      }
+      // The whole parent chain, since many names repeat across provinces
+      case "districts":
+      case "subdistricts":
+        return formatAddress(props, level);
+      // Both schemes have a North and a Northeast, so the scheme tells them apart
+      case "region_royin":
       case "region_nesdb": {
-        return (props as RegionProperties).reg_nesdb || "Unknown Region";
+        const regionProp = props as RegionProperties;
+        const name = level === "region_royin" ? regionProp.reg_royin : regionProp.reg_nesdb;
+        return name
+          ? `${regionNameTh(name)} (${regionNameEn(name)}) · ${REGION_SCHEME_NAMES[level]}`
+          : "Unknown Region";
       }
       default:
         return "Unknown";
     }
   }
 
+  // Ranked fuzzy search over the names and codes of every loaded level; a
+  // multi-part address only matches areas inside the parents it names
   search(query: string, limit: number = 20): SearchResult[] {
-    if (!query.trim()) return [];
-
-    const normalizedQuery = this.normalizeSearchTerm(query);
-    const results: SearchResult[] = [];
-    const seen = new Set<string>();
-
-    // Exact matches first
-    for (const [term, termResults] of this.searchIndex.entries()) {
-      if (term === normalizedQuery) {
-        termResults.forEach((result) => {
-          const key = `${result.level}-${JSON.stringify(
-            result.feature.properties
-          )}`;
-          if (!seen.has(key)) {
-            results.push(result);
-            seen.add(key);
-          }
-        });
-      }
+    const addressMatches = searchAddress(this.searchIndex, query, limit);
+    if (addressMatches.length > 0) return addressMatches;
+    return this.searchIndex.search(query, limit).map((match) => match.value);
+  }
+
+  // Areas sharing a border with each area of a loaded level, with the shared length
+  getAdjacency(level: AdminLevel): AdjacencyIndex {
+    let index = this.adjacency.get(level);
+    if (!index) {
+      const collection = this.data.get(level);
+      if (!collection) return new Map();
+      index = buildAdjacency(
+        collection.features.map((feature) => ({
+          code: getAreaCode(feature.properties, level),
+          geometry: feature.geometry,
+        }))
+      );
+      this.adjacency.set(level, index);
     }
+    return index;
+  }
 
-    // Partial matches
-    if (results.length < limit) {
-      for (const [term, termResults] of this.searchIndex.entries()) {
-        if (term.includes(normalizedQuery) && term !== normalizedQuery) {
-          termResults.forEach((result) => {
-            const key = `${result.level}-${JSON.stringify(
-              result.feature.properties
-            )}`;
-            if (!seen.has(key) && results.length < limit) {
-              results.push(result);
-              seen.add(key);
-            }
-          });
+  // Neighbors of an area, longest shared border first
+  getNeighbors(code: string, level: AdminLevel): AdjacentArea[] {
+    const neighbors = this.getAdjacency(level).get(code);
+    if (!neighbors) return [];
+
+    return Array.from(neighbors.entries())
+      .map(([neighborCode, sharedBorderKm]) => ({ code: neighborCode, sharedBorderKm }))
+      .sort((a, b) => b.sharedBorderKm - a.sharedBorderKm);
+  }
+
+  // Length in kilometers of the border two areas share; 0 when they do not touch
+  getSharedBorderLength(codeA: string, codeB: string, level: AdminLevel): number {
+    return this.getAdjacency(level).get(codeA)?.get(codeB) || 0;
+  }
+
+  // Areas containing a point, from the subdistrict down to the regions; null outside Thailand
+  async reverseGeocode(lat: number, lng: number): Promise<AdminHierarchy | null> {
+    if (!this.geocoder) {
+      this.geocoder = (async () => {
+        for (const level of GEOCODER_LEVELS) {
+          try {
+            return new ReverseGeocoder(await this.loadLevel(level), level);
+          } catch {
+            // Fall back to the next coarser level
+          }
         }
-      }
+        throw new Error("No boundary data available for reverse geocoding");
+      })();
+      this.geocoder.catch(() => {
+        this.geocoder = null;
+      });
     }
-
-    return results.slice(0, limit);
+    return (await this.geocoder).lookup(lat, lng);
   }
 
   getFeatureBounds(
@@ -0,0 +1,62 @@
+// Geometry of the boundary data shared by the map tools: polygons as [lng, lat]
+// rings, their areas and containment, distances on the earth, and the code
+// that identifies each area of a level.
+import { MapLevel } from "./map-config";
+import { RegionLevel, getRegionCode, isRegionLevel } from "./regions";
+import { GeoJSONGeometry, GeoJSONProperties } from "./types";
+
+export type Ring = number[][];
+export type Polygon = Ring[];
+
+// Feature properties holding the code and names of each non-region level
+export const LEVEL_KEYS: Record<Exclude<MapLevel, RegionLevel>, { code: string; th: string; en: string }> = {
+  provinces: { code: "pro_code", th: "pro_th", en: "pro_en" },
+  districts: { code: "amp_code", th: "amp_th", en: "amp_en" },
+  subdistricts: { code: "tam_code", th: "tam_th", en: "tam_en" },
+};
+
+const MEAN_EARTH_RADIUS_KM = 6371.0088;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const getAreaCode = (properties: GeoJSONProperties, level: MapLevel): string => {
+  if (isRegionLevel(level)) return getRegionCode(properties, level);
+  const code = properties[LEVEL_KEYS[level].code];
+  return code === undefined || code === null ? "" : String(code);
+};
+
+export const polygonsOf = (geometry: GeoJSONGeometry): Polygon[] => {
+  if (geometry.type === "Polygon") return [geometry.coordinates as Polygon];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates as Polygon[];
+  return [];
+};
+
+// Shoelace sum; positive for counter-clockwise rings
+export const signedArea = (ring: Ring): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum / 2;
+};
+
+// Even-odd ray casting
+export const pointInRing = ([x, y]: number[], ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Great-circle distance between two [lng, lat] points
+export const distanceKm = ([lng1, lat1]: number[], [lng2, lat2]: number[]): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * MEAN_EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
@@ -0,0 +1,391 @@
+// Painted areas as GIS files (GeoJSON, KML, zipped Shapefile) for QGIS and
+// similar tools. Everything is generated in the browser from the level's
+// GeoJSON; each feature carries its color and legend label.
+import { strToU8, zipSync } from "fflate";
+import { LEVEL_KEYS, Polygon, Ring, getAreaCode, polygonsOf, signedArea } from "./geometry";
+import { MapLevel } from "./map-config";
+import {
+  REGION_PROPERTY,
+  getRegionCodes,
+  isRegionLevel,
+  matchesRegionFilter,
+  regionNameEn,
+  regionNameTh,
+} from "./regions";
+import { GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONGeometry, GeoJSONProperties } from "./types";
+
+export type GISFormat = "geojson" | "kml" | "shapefile";
+
+export const GIS_FORMATS: { value: GISFormat; label: string; extension: string }[] = [
+  { value: "geojson", label: "GeoJSON", extension: "geojson" },
+  { value: "kml", label: "KML", extension: "kml" },
+  { value: "shapefile", label: "Shapefile (ZIP)", extension: "zip" },
+];
+
+// Level and filters deciding which areas are on the map
+export interface AreaFilters {
+  level: MapLevel;
+  selectedProvinces?: string[];
+  selectedDistricts?: string[];
+  selectedRegions?: string[];
+}
+
+export interface ColoredAreaOptions extends AreaFilters {
+  areaColors: Map<string, string>;
+  // Choropleth colors; painted colors take precedence as on the map
+  classifiedColors?: Map<string, string>;
+  areaValues?: Map<string, number>;
+  // Legend text by lower-case hex color
+  legendLabels?: Map<string, string>;
+}
+
+// Every exported feature is drawn in its color and described by its legend label
+export interface StyledProperties {
+  color: string;
+  label: string;
+}
+
+// Shapefile attribute column; names are limited to 10 characters
+export interface GISField<T> {
+  name: keyof T & string;
+  type: "C" | "N";
+  length: number;
+  decimals?: number;
+}
+
+export interface GISLayer<T extends StyledProperties> {
+  features: GeoJSONFeature<T>[];
+  fields: GISField<T>[];
+  // Placemark name in KML
+  nameField: keyof T & string;
+}
+
+// Flat attribute set shared by all three formats
+export interface ColoredAreaProperties extends StyledProperties {
+  code: string;
+  name_th: string;
+  name_en: string;
+  pro_code: string;
+  pro_th: string;
+  amp_code: string;
+  amp_th: string;
+  value: number | null;
+}
+
+export type ColoredAreaFeature = GeoJSONFeature<ColoredAreaProperties>;
+
+export const AREA_FIELDS: GISField<ColoredAreaProperties>[] = [
+  { name: "code", type: "C", length: 20 },
+  { name: "name_th", type: "C", length: 120 },
+  { name: "name_en", type: "C", length: 80 },
+  { name: "pro_code", type: "C", length: 10 },
+  { name: "pro_th", type: "C", length: 120 },
+  { name: "amp_code", type: "C", length: 10 },
+  { name: "amp_th", type: "C", length: 120 },
+  { name: "color", type: "C", length: 32 },
+  { name: "label", type: "C", length: 254 },
+  { name: "value", type: "N", length: 24, decimals: 6 },
+];
+
+export const coloredAreaLayer = (features: ColoredAreaFeature[]): GISLayer<ColoredAreaProperties> => ({
+  features,
+  fields: AREA_FIELDS,
+  nameField: "name_th",
+});
+
+const text = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+
+// Whether an area of the level passes the region/province/district filters
+export const isAreaDisplayed = (properties: GeoJSONProperties, filters: AreaFilters): boolean => {
+  const { level, selectedProvinces = [], selectedDistricts = [], selectedRegions = [] } = filters;
+  if (level === "districts" && selectedProvinces.length > 0 && !selectedProvinces.includes(text(properties.pro_code))) {
+    return false;
+  }
+  if (level === "subdistricts" && selectedDistricts.length > 0 && !selectedDistricts.includes(text(properties.amp_code))) {
+    return false;
+  }
+  return isRegionLevel(level) || matchesRegionFilter(getRegionCodes(properties), selectedRegions);
+};
+
+// Features of the level that are colored and pass the region/province/district filters
+export const buildColoredFeatures = (
+  collection: GeoJSONFeatureCollection,
+  options: ColoredAreaOptions
+): ColoredAreaFeature[] => {
+  const level = options.level;
+
+  return collection.features.flatMap((feature): ColoredAreaFeature[] => {
+    const properties = feature.properties;
+    if (!isAreaDisplayed(properties, options)) return [];
+
+    const code = getAreaCode(properties, level);
+    const color = options.areaColors.get(code) || options.classifiedColors?.get(code);
+    if (!color) return [];
+
+    const regionName = isRegionLevel(level) ? text(properties[REGION_PROPERTY[level]]) : "";
+    return [{
+      type: "Feature",
+      geometry: feature.geometry,
+      properties: {
+        code,
+        name_th: isRegionLevel(level) ? regionNameTh(regionName) : text(properties[LEVEL_KEYS[level].th]),
+        name_en: isRegionLevel(level) ? regionNameEn(regionName) : text(properties[LEVEL_KEYS[level].en]),
+        pro_code: level === "districts" || level === "subdistricts" ? text(properties.pro_code) : "",
+        pro_th: level === "districts" || level === "subdistricts" ? text(properties.pro_th) : "",
+        amp_code: level === "subdistricts" ? text(properties.amp_code) : "",
+        amp_th: level === "subdistricts" ? text(properties.amp_th) : "",
+        color,
+        label: options.legendLabels?.get(color.trim().toLowerCase()) || "",
+        value: options.areaValues?.get(code) ?? null,
+      },
+    }];
+  });
+};
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// GeoJSON
+
+export const buildGeoJSON = <T extends StyledProperties>(layer: GISLayer<T>, name: string): string =>
+  JSON.stringify({
+    type: "FeatureCollection",
+    name,
+    crs: { type: "name", properties: { name: "urn:ogc:def:crs:OGC:1.3:CRS84" } },
+    features: layer.features,
+  });
+
+// KML
+
+// #rrggbb -> aabbggrr
+const kmlColor = (hex: string, alpha: string): string => {
+  const value = /^#[0-9a-f]{6}$/i.test(hex.trim()) ? hex.trim().slice(1).toLowerCase() : "808080";
+  return `${alpha}${value.slice(4, 6)}${value.slice(2, 4)}${value.slice(0, 2)}`;
+};
+
+const kmlStyleId = (color: string): string => `c${kmlColor(color, "").toLowerCase()}`;
+
+const kmlRing = (ring: Ring): string =>
+  `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(" ")}</coordinates></LinearRing>`;
+
+const kmlPolygon = ([outer, ...holes]: Polygon): string =>
+  "<Polygon>" +
+  `<outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>` +
+  holes.map((hole) => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`).join("") +
+  "</Polygon>";
+
+export const buildKML = <T extends StyledProperties>(
+  layer: GISLayer<T>,
+  name: string,
+  borderColor = "#000000"
+): string => {
+  const colors = Array.from(new Set(layer.features.map((feature) => feature.properties.color)));
+  const styles = colors.map((color) =>
+    `<Style id="${kmlStyleId(color)}">` +
+    `<LineStyle><color>${kmlColor(borderColor, "ff")}</color><width>1</width></LineStyle>` +
+    `<PolyStyle><color>${kmlColor(color, "cc")}</color></PolyStyle>` +
+    "</Style>"
+  );
+
+  const placemarks = layer.features.map(({ properties, geometry }) => {
+    const polygons = polygonsOf(geometry);
+    const shape = polygons.length === 1
+      ? kmlPolygon(polygons[0])
+      : `<MultiGeometry>${polygons.map(kmlPolygon).join("")}</MultiGeometry>`;
+    const data = Object.entries(properties)
+      .filter(([, value]) => value !== null && value !== "")
+      .map(([key, value]) => `<Data name="${key}"><value>${escapeXML(String(value))}</value></Data>`)
+      .join("");
+    return (
+      "<Placemark>" +
+      `<name>${escapeXML(text(properties[layer.nameField]))}</name>` +
+      (properties.label ? `<description>${escapeXML(properties.label)}</description>` : "") +
+      `<styleUrl>#${kmlStyleId(properties.color)}</styleUrl>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      shape +
+      "</Placemark>"
+    );
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+    `<name>${escapeXML(name)}</name>` +
+    styles.join("") +
+    placemarks.join("") +
+    "</Document></kml>"
+  );
+};
+
+// Shapefile: .shp/.shx polygons, .dbf attributes (UTF-8, declared in .cpg) and a WGS 84 .prj
+
+const SHAPE_POLYGON = 5;
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+// Shapefiles want clockwise outer rings and counter-clockwise holes (GeoJSON is the opposite)
+const shapefileRings = (geometry: GeoJSONGeometry): Ring[] =>
+  polygonsOf(geometry).flatMap((polygon) =>
+    polygon.map((ring, index) => {
+      const clockwise = signedArea(ring) < 0;
+      return (index === 0) === clockwise ? ring : [...ring].reverse();
+    })
+  );
+
+const ringsBBox = (rings: Ring[]): [number, number, number, number] => {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  rings.forEach((ring) =>
+    ring.forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    })
+  );
+  return Number.isFinite(minX) ? [minX, minY, maxX, maxY] : [0, 0, 0, 0];
+};
+
+const writeShapeHeader = (view: DataView, byteLength: number, bbox: [number, number, number, number]) => {
+  view.setInt32(0, 9994); // file code, big-endian
+  view.setInt32(24, byteLength / 2); // length in 16-bit words
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, SHAPE_POLYGON, true);
+  bbox.forEach((value, index) => view.setFloat64(36 + index * 8, value, true));
+};
+
+const buildShapes = (features: GeoJSONFeature<unknown>[]): { shp: Uint8Array; shx: Uint8Array } => {
+  const shapes = features.map((feature) => shapefileRings(feature.geometry));
+  const contentLengths = shapes.map((rings) =>
+    44 + rings.length * 4 + rings.reduce((sum, ring) => sum + ring.length * 16, 0)
+  );
+  const shpLength = 100 + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = 100 + shapes.length * 8;
+
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  const bbox = ringsBBox(shapes.flat());
+  writeShapeHeader(shpView, shpLength, bbox);
+  writeShapeHeader(shxView, shxLength, bbox);
+
+  let offset = 100;
+  shapes.forEach((rings, index) => {
+    shxView.setInt32(100 + index * 8, offset / 2);
+    shxView.setInt32(104 + index * 8, contentLengths[index] / 2);
+
+    shpView.setInt32(offset, index + 1);
+    shpView.setInt32(offset + 4, contentLengths[index] / 2);
+    offset += 8;
+
+    shpView.setInt32(offset, SHAPE_POLYGON, true);
+    ringsBBox(rings).forEach((value, i) => shpView.setFloat64(offset + 4 + i * 8, value, true));
+    const pointCount = rings.reduce((sum, ring) => sum + ring.length, 0);
+    shpView.setInt32(offset + 36, rings.length, true);
+    shpView.setInt32(offset + 40, pointCount, true);
+    offset += 44;
+
+    let start = 0;
+    rings.forEach((ring) => {
+      shpView.setInt32(offset, start, true);
+      offset += 4;
+      start += ring.length;
+    });
+    rings.forEach((ring) =>
+      ring.forEach(([x, y]) => {
+        shpView.setFloat64(offset, x, true);
+        shpView.setFloat64(offset + 8, y, true);
+        offset += 16;
+      })
+    );
+  });
+
+  return { shp, shx };
+};
+
+// UTF-8 bytes cut at a character boundary
+const fitBytes = (value: string, length: number): Uint8Array => {
+  const bytes = strToU8(value);
+  let end = Math.min(bytes.length, length);
+  while (end < bytes.length && end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+};
+
+const buildDBF = <T extends StyledProperties>({ features, fields }: GISLayer<T>): Uint8Array => {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const dbf = new Uint8Array(headerLength + features.length * recordLength + 1).fill(0x20, headerLength);
+  const view = new DataView(dbf.buffer);
+
+  const now = new Date();
+  dbf[0] = 0x03;
+  dbf[1] = now.getFullYear() - 1900;
+  dbf[2] = now.getMonth() + 1;
+  dbf[3] = now.getDate();
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, index) => {
+    const base = 32 + index * 32;
+    dbf.set(strToU8(field.name.toUpperCase()), base);
+    dbf[base + 11] = field.type.charCodeAt(0);
+    dbf[base + 16] = field.length;
+    dbf[base + 17] = field.decimals || 0;
+  });
+  dbf[headerLength - 1] = 0x0d;
+
+  features.forEach((feature, index) => {
+    let offset = headerLength + index * recordLength + 1; // after the deletion flag
+    fields.forEach((field) => {
+      const value: unknown = feature.properties[field.name];
+      if (field.type === "N") {
+        // Numbers are right-aligned; missing values stay blank
+        if (typeof value === "number" && Number.isFinite(value)) {
+          const formatted = value.toFixed(field.decimals || 0).slice(0, field.length);
+          dbf.set(strToU8(formatted), offset + field.length - formatted.length);
+        }
+      } else {
+        dbf.set(fitBytes(text(value), field.length), offset);
+      }
+      offset += field.length;
+    });
+  });
+  dbf[dbf.length - 1] = 0x1a;
+
+  return dbf;
+};
+
+export const buildShapefileZip = <T extends StyledProperties>(layer: GISLayer<T>, baseName: string): Uint8Array => {
+  const { shp, shx } = buildShapes(layer.features);
+  return zipSync({
+    [`${baseName}.shp`]: shp,
+    [`${baseName}.shx`]: shx,
+    [`${baseName}.dbf`]: buildDBF(layer),
+    [`${baseName}.prj`]: strToU8(WGS84_PRJ),
+    [`${baseName}.cpg`]: strToU8("UTF-8"),
+  });
+};
+
+export const buildGISFile = <T extends StyledProperties>(
+  format: GISFormat,
+  layer: GISLayer<T>,
+  baseName: string,
+  borderColor?: string
+): Blob => {
+  switch (format) {
+    case "geojson":
+      return new Blob([buildGeoJSON(layer, baseName)], { type: "application/geo+json" });
+    case "kml":
+      return new Blob([buildKML(layer, baseName, borderColor)], {
+        type: "application/vnd.google-earth.kml+xml",
+      });
+    case "shapefile":
+      return new Blob([buildShapefileZip(layer, baseName) as BlobPart], { type: "application/zip" });
+  }
+};
@@ -0,0 +1,218 @@
+// Undo/redo history for the painting page.
+//
+// Entries store diffs rather than whole snapshots so that subdistrict maps
+// with thousands of colored areas stay cheap to keep in memory.
+
+export interface TrackedState {
+  areaColors: Map<string, string>;
+  palette: string[];
+  selectedProvinces: string[];
+  selectedDistricts: string[];
+  selectedRegions: string[];
+}
+
+// [code, color before, color after]; undefined means the area had no color
+export type ColorChange = [string, string | undefined, string | undefined];
+
+export interface HistoryEntry {
+  label: string;
+  time: number;
+  colors?: ColorChange[];
+  palette?: [string[], string[]];
+  selectedProvinces?: [string[], string[]];
+  selectedDistricts?: [string[], string[]];
+  selectedRegions?: [string[], string[]];
+}
+
+export type HistoryDirection = "undo" | "redo";
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Upper bound on stored diff items (color changes plus list items) across all entries
+export const MAX_HISTORY_CELLS = 200000;
+// Consecutive palette edits within this window are merged (color input drags)
+const PALETTE_MERGE_WINDOW_MS = 1000;
+
+const arraysEqual = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+const diffColors = (
+  before: Map<string, string>,
+  after: Map<string, string>
+): ColorChange[] => {
+  const changes: ColorChange[] = [];
+  before.forEach((color, code) => {
+    const next = after.get(code);
+    if (next !== color) changes.push([code, color, next]);
+  });
+  after.forEach((color, code) => {
+    if (!before.has(code)) changes.push([code, undefined, color]);
+  });
+  return changes;
+};
+
+const describeColorChanges = (changes: ColorChange[], after: Map<string, string>): string => {
+  const added = changes.filter(([, before, next]) => before === undefined && next !== undefined).length;
+  const removed = changes.filter(([, , next]) => next === undefined).length;
+
+  if (removed > 0 && added === 0) {
+    if (after.size === 0 && removed > 1) return "ล้างสีทั้งหมด";
+    return removed === 1 ? "ลบสี" : `ลบสี ${removed} พื้นที่`;
+  }
+  return changes.length === 1 ? "ลงสี" : `ลงสี ${changes.length} พื้นที่`;
+};
+
+export const diffTrackedState = (
+  before: TrackedState,
+  after: TrackedState
+): HistoryEntry | null => {
+  const entry: HistoryEntry = { label: "", time: Date.now() };
+  const labels: string[] = [];
+
+  if (before.areaColors !== after.areaColors) {
+    const colors = diffColors(before.areaColors, after.areaColors);
+    if (colors.length > 0) {
+      entry.colors = colors;
+      labels.push(describeColorChanges(colors, after.areaColors));
+    }
+  }
+  if (!arraysEqual(before.palette, after.palette)) {
+    entry.palette = [before.palette, after.palette];
+    labels.push("แก้ไขชุดสี");
+  }
+  if (!arraysEqual(before.selectedProvinces, after.selectedProvinces)) {
+    entry.selectedProvinces = [before.selectedProvinces, after.selectedProvinces];
+    labels.push("เลือกจังหวัด");
+  }
+  if (!arraysEqual(before.selectedDistricts, after.selectedDistricts)) {
+    entry.selectedDistricts = [before.selectedDistricts, after.selectedDistricts];
+    labels.push("เลือกอำเภอ");
+  }
+  if (!arraysEqual(before.selectedRegions, after.selectedRegions)) {
+    entry.selectedRegions = [before.selectedRegions, after.selectedRegions];
+    labels.push("เลือกภาค");
+  }
+
+  if (labels.length === 0) return null;
+  entry.label = labels.join(", ");
+  return entry;
+};
+
+// State with the entry reverted (undo) or re-applied (redo); unchanged parts keep their identity
+export const applyHistoryEntry = (
+  state: TrackedState,
+  entry: HistoryEntry,
+  direction: HistoryDirection
+): TrackedState => {
+  const pick = <T>(pair: [T, T]): T => (direction === "undo" ? pair[0] : pair[1]);
+  const next: TrackedState = { ...state };
+
+  if (entry.colors) {
+    const areaColors = new Map(state.areaColors);
+    entry.colors.forEach(([code, before, after]) => {
+      const color = direction === "undo" ? before : after;
+      if (color === undefined) {
+        areaColors.delete(code);
+      } else {
+        areaColors.set(code, color);
+      }
+    });
+    next.areaColors = areaColors;
+  }
+  if (entry.palette) next.palette = pick(entry.palette);
+  if (entry.selectedProvinces) next.selectedProvinces = pick(entry.selectedProvinces);
+  if (entry.selectedDistricts) next.selectedDistricts = pick(entry.selectedDistricts);
+  if (entry.selectedRegions) next.selectedRegions = pick(entry.selectedRegions);
+
+  return next;
+};
+
+const entrySize = (entry: HistoryEntry): number =>
+  (entry.colors?.length || 0) +
+  (entry.palette ? entry.palette[0].length + entry.palette[1].length : 0) +
+  (entry.selectedProvinces ? entry.selectedProvinces[0].length + entry.selectedProvinces[1].length : 0) +
+  (entry.selectedDistricts ? entry.selectedDistricts[0].length + entry.selectedDistricts[1].length : 0) +
+  (entry.selectedRegions ? entry.selectedRegions[0].length + entry.selectedRegions[1].length : 0);
+
+export class UndoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private cellCount = 0;
+
+  push(entry: HistoryEntry): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    const isPaletteOnly = (e: HistoryEntry) =>
+      e.palette && !e.colors && !e.selectedProvinces && !e.selectedDistricts && !e.selectedRegions;
+
+    if (
+      last &&
+      isPaletteOnly(last) &&
+      isPaletteOnly(entry) &&
+      entry.time - last.time < PALETTE_MERGE_WINDOW_MS
+    ) {
+      this.cellCount -= entrySize(last);
+      last.palette = [last.palette![0], entry.palette![1]];
+      last.time = entry.time;
+      this.cellCount += entrySize(last);
+    } else {
+      this.undoStack.push(entry);
+      this.cellCount += entrySize(entry);
+    }
+
+    this.clearRedo();
+    this.trim();
+  }
+
+  undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  peekUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label || null;
+  }
+
+  peekRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label || null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.cellCount = 0;
+  }
+
+  private clearRedo(): void {
+    this.redoStack.forEach((entry) => {
+      this.cellCount -= entrySize(entry);
+    });
+    this.redoStack = [];
+  }
+
+  // Drop the oldest entries once either bound is exceeded; the newest entry is always kept
+  private trim(): void {
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > MAX_HISTORY_ENTRIES || this.cellCount > MAX_HISTORY_CELLS)
+    ) {
+      const dropped = this.undoStack.shift()!;
+      this.cellCount -= entrySize(dropped);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+// Area labels: where a name goes inside its area, how big it is drawn and
+// which names fit on screen. A name sits at the area's pole of inaccessibility,
+// the interior point farthest from the outline, which unlike the centroid is
+// inside concave and ring-shaped areas. Its size follows the area's size on
+// screen, and where two labels would overlap the larger area keeps its name.
+import { Polygon, polygonsOf, signedArea } from "./geometry";
+import { AdminLevel, GeoJSONGeometry } from "./types";
+
+export interface LabelRule {
+  // Font size per pixel of the square root of the area's size on screen
+  scale: number;
+  minFontSize: number; // Smaller labels are hidden
+  maxFontSize: number;
+}
+
+// Centered at (x, y), in container pixels
+export interface LabelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  priority: number;
+}
+
+export const LABEL_RULES: Record<AdminLevel, LabelRule> = {
+  region_royin: { scale: 0.12, minFontSize: 10, maxFontSize: 20 },
+  region_nesdb: { scale: 0.12, minFontSize: 10, maxFontSize: 20 },
+  provinces: { scale: 0.2, minFontSize: 8, maxFontSize: 18 },
+  districts: { scale: 0.18, minFontSize: 8, maxFontSize: 16 },
+  subdistricts: { scale: 0.18, minFontSize: 7, maxFontSize: 14 },
+};
+
+// Search stops once no cell can beat the best point by more than this share of the area's size
+const POLE_PRECISION = 0.005;
+const MAX_POLE_CELLS = 5000;
+// Grid cell of the collision check, in pixels
+const COLLISION_CELL = 64;
+
+interface Cell {
+  x: number;
+  y: number;
+  half: number;
+  // Distance from the cell center to the outline, negative outside
+  distance: number;
+  // Largest distance any point of the cell can have
+  max: number;
+}
+
+const segmentDistanceSq = (x: number, y: number, a: number[], b: number[]): number => {
+  let [px, py] = a;
+  let dx = b[0] - px;
+  let dy = b[1] - py;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((x - px) * dx + (y - py) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      [px, py] = b;
+    } else if (t > 0) {
+      px += dx * t;
+      py += dy * t;
+    }
+  }
+  dx = x - px;
+  dy = y - py;
+  return dx * dx + dy * dy;
+};
+
+const signedDistance = (x: number, y: number, polygon: Polygon): number => {
+  let inside = false;
+  let minSq = Infinity;
+  polygon.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a[1] > y !== b[1] > y && x < ((b[0] - a[0]) * (y - a[1])) / (b[1] - a[1]) + a[0]) inside = !inside;
+      minSq = Math.min(minSq, segmentDistanceSq(x, y, a, b));
+    }
+  });
+  return (inside ? 1 : -1) * Math.sqrt(minSq);
+};
+
+const makeCell = (x: number, y: number, half: number, polygon: Polygon): Cell => {
+  const distance = signedDistance(x, y, polygon);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+};
+
+// Binary max-heap on Cell.max
+const pushCell = (heap: Cell[], cell: Cell) => {
+  heap.push(cell);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].max >= heap[index].max) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+};
+
+const popCell = (heap: Cell[]): Cell => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let largest = index;
+      if (left < heap.length && heap[left].max > heap[largest].max) largest = left;
+      if (right < heap.length && heap[right].max > heap[largest].max) largest = right;
+      if (largest === index) break;
+      [heap[largest], heap[index]] = [heap[index], heap[largest]];
+      index = largest;
+    }
+  }
+  return top;
+};
+
+const ringCentroid = (ring: number[][]): number[] => {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    area += cross;
+    x += (ring[j][0] + ring[i][0]) * cross;
+    y += (ring[j][1] + ring[i][1]) * cross;
+  }
+  return area === 0 ? ring[0] : [x / (3 * area), y / (3 * area)];
+};
+
+// Interior point farthest from the outline (the "polylabel" search): cover the
+// polygon with square cells and keep splitting the cells that could still hold
+// a farther point than the best one found so far
+export const poleOfInaccessibility = (polygon: Polygon): number[] => {
+  const outer = polygon[0];
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  outer.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return outer[0];
+  const precision = Math.max(width, height) * POLE_PRECISION;
+
+  const heap: Cell[] = [];
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      pushCell(heap, makeCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2, polygon));
+    }
+  }
+
+  const [centroidX, centroidY] = ringCentroid(outer);
+  let best = makeCell(centroidX, centroidY, 0, polygon);
+  const center = makeCell(minX + width / 2, minY + height / 2, 0, polygon);
+  if (center.distance > best.distance) best = center;
+
+  for (let visited = 0; heap.length > 0 && visited < MAX_POLE_CELLS; visited++) {
+    const cell = popCell(heap);
+    if (cell.distance > best.distance) best = cell;
+    if (cell.max - best.distance <= precision) continue;
+    const half = cell.half / 2;
+    pushCell(heap, makeCell(cell.x - half, cell.y - half, half, polygon));
+    pushCell(heap, makeCell(cell.x + half, cell.y - half, half, polygon));
+    pushCell(heap, makeCell(cell.x - half, cell.y + half, half, polygon));
+    pushCell(heap, makeCell(cell.x + half, cell.y + half, half, polygon));
+  }
+  return [best.x, best.y];
+};
+
+const polygonArea = ([outer, ...holes]: Polygon): number =>
+  Math.abs(signedArea(outer)) - holes.reduce((sum, hole) => sum + Math.abs(signedArea(hole)), 0);
+
+const labelPolygons = (geometry: GeoJSONGeometry): Polygon[] =>
+  polygonsOf(geometry).filter((polygon) => polygon.length > 0 && polygon[0].length >= 4);
+
+// Area of all parts in square degrees, for sizing and ranking labels
+export const geometryArea = (geometry: GeoJSONGeometry): number =>
+  labelPolygons(geometry).reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+
+// [lng, lat] label point in the largest part of the area; null for areas without polygons
+export const labelPosition = (geometry: GeoJSONGeometry): number[] | null => {
+  const polygons = labelPolygons(geometry);
+  if (polygons.length === 0) return null;
+
+  const areas = polygons.map(polygonArea);
+  const largest = polygons[areas.indexOf(Math.max(...areas))];
+  // Search in coordinates where a degree of longitude is as long as one of latitude
+  const latitude = largest[0].reduce((sum, point) => sum + point[1], 0) / largest[0].length;
+  const xScale = Math.cos((latitude * Math.PI) / 180);
+  const [x, y] = poleOfInaccessibility(largest.map((ring) => ring.map(([lng, lat]) => [lng * xScale, lat])));
+  return [x / xScale, y];
+};
+
+// Font size for an area whose square root on screen is this many pixels; null when too small to label
+export const labelFontSize = (rule: LabelRule, screenSize: number): number | null => {
+  const size = Math.min(rule.maxFontSize, Math.round(screenSize * rule.scale));
+  return size < rule.minFontSize ? null : size;
+};
+
+const overlaps = (a: LabelBox, b: LabelBox): boolean =>
+  Math.abs(a.x - b.x) * 2 < a.width + b.width && Math.abs(a.y - b.y) * 2 < a.height + b.height;
+
+// Highest priority first, each label is kept unless it overlaps one kept before it
+export const placeLabels = <T extends LabelBox>(labels: T[]): T[] => {
+  const grid = new Map<string, T[]>();
+  const placed: T[] = [];
+
+  [...labels]
+    .sort((a, b) => b.priority - a.priority)
+    .forEach((label) => {
+      const minCol = Math.floor((label.x - label.width / 2) / COLLISION_CELL);
+      const maxCol = Math.floor((label.x + label.width / 2) / COLLISION_CELL);
+      const minRow = Math.floor((label.y - label.height / 2) / COLLISION_CELL);
+      const maxRow = Math.floor((label.y + label.height / 2) / COLLISION_CELL);
+
+      const cells: string[] = [];
+      for (let col = minCol; col <= maxCol; col++) {
+        for (let row = minRow; row <= maxRow; row++) cells.push(`${col},${row}`);
+      }
+      if (cells.some((cell) => grid.get(cell)?.some((other) => overlaps(label, other)))) return;
+
+      cells.forEach((cell) => {
+        const members = grid.get(cell);
+        if (members) members.push(label);
+        else grid.set(cell, [label]);
+      });
+      placed.push(label);
+    });
+  return placed;
+};
@@ -0,0 +1,128 @@
+// Legend entries derived from the colors actually used on the map.
+import {
+  ClassificationResult,
+  formatClassRange,
+} from "./classification";
+
+export type LegendPosition = "topleft" | "topright" | "bottomleft" | "bottomright";
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+  count: number;
+  // Value range for classified (choropleth) entries
+  range?: string;
+}
+
+export interface LegendSettings {
+  show: boolean;
+  title: string;
+  position: LegendPosition;
+  labels: Map<string, string>;
+}
+
+export const DEFAULT_LEGEND_SETTINGS: LegendSettings = {
+  show: true,
+  title: "",
+  position: "bottomright",
+  labels: new Map(),
+};
+
+export const LEGEND_POSITIONS: LegendPosition[] = [
+  "topleft",
+  "topright",
+  "bottomleft",
+  "bottomright",
+];
+
+const normalizeColor = (color: string): string => color.trim().toLowerCase();
+
+// Classified classes come first (in class order), then painted colors in
+// palette order followed by any colors not in the palette (e.g. CSV imports).
+// Labels belong to a color, so a color used by several classes or both
+// classified and painted gets one entry counting all of its areas
+export const buildLegendEntries = (
+  areaColors: Map<string, string>,
+  palette: string[],
+  labels: Map<string, string>,
+  classification?: { result: ClassificationResult; colors: Map<string, string> }
+): LegendEntry[] => {
+  const entries: LegendEntry[] = [];
+  const entriesByColor = new Map<string, LegendEntry>();
+  const addEntry = (entry: LegendEntry) => {
+    const existing = entriesByColor.get(normalizeColor(entry.color));
+    if (!existing) {
+      entriesByColor.set(normalizeColor(entry.color), entry);
+      entries.push(entry);
+      return;
+    }
+    existing.count += entry.count;
+    if (entry.range) existing.range = existing.range ? `${existing.range}, ${entry.range}` : entry.range;
+  };
+
+  if (classification) {
+    const classCounts = new Map<string, number>();
+    classification.colors.forEach((color) => {
+      classCounts.set(color, (classCounts.get(color) || 0) + 1);
+    });
+
+    // Areas are counted by color, so classes sharing a color count them once
+    const countedColors = new Set<string>();
+    classification.result.colors.forEach((color, index) => {
+      const count = classCounts.get(color) || 0;
+      if (count === 0) return;
+      addEntry({
+        color,
+        label: labels.get(normalizeColor(color)) || "",
+        count: countedColors.has(color) ? 0 : count,
+        range: formatClassRange(classification.result, index),
+      });
+      countedColors.add(color);
+    });
+  }
+
+  const paintedCounts = new Map<string, number>();
+  areaColors.forEach((color) => {
+    const key = normalizeColor(color);
+    paintedCounts.set(key, (paintedCounts.get(key) || 0) + 1);
+  });
+
+  const paletteOrder = palette.map(normalizeColor);
+  const paintedColors = Array.from(paintedCounts.keys()).sort((a, b) => {
+    const indexA = paletteOrder.indexOf(a);
+    const indexB = paletteOrder.indexOf(b);
+    if (indexA === -1 && indexB === -1) return a.localeCompare(b);
+    if (indexA === -1) return 1;
+    if (indexB === -1) return -1;
+    return indexA - indexB;
+  });
+
+  paintedColors.forEach((color) => {
+    addEntry({
+      color,
+      label: labels.get(color) || "",
+      count: paintedCounts.get(color) || 0,
+    });
+  });
+
+  return entries;
+};
+
+// Legend labels are keyed by lower-case hex so "#FF0000" and "#ff0000" share one
+export const setLegendLabel = (
+  labels: Map<string, string>,
+  color: string,
+  label: string
+): Map<string, string> => {
+  const next = new Map(labels);
+  if (label.trim()) {
+    next.set(normalizeColor(color), label);
+  } else {
+    next.delete(normalizeColor(color));
+  }
+  return next;
+};
+
+// Text shown for an entry when the user has not typed a label
+export const getLegendEntryText = (entry: LegendEntry): string =>
+  entry.label || entry.range || entry.color;
@@ -0,0 +1,419 @@
+// Saved map configuration: what the save button, projects and JSON export persist.
+//
+// Every stored or imported config goes through validateMapConfig, which first
+// upgrades older versions with MIGRATIONS and then checks each field. Broken
+// structure is reported as an error; bad individual entries are dropped or
+// replaced by defaults and reported as warnings.
+import {
+  CLASSIFICATION_METHODS,
+  COLOR_RAMPS,
+  ChoroplethSettings,
+  DEFAULT_CHOROPLETH_SETTINGS,
+  MAX_CLASS_COUNT,
+  MIN_CLASS_COUNT,
+} from "./classification";
+import {
+  DEFAULT_LEGEND_SETTINGS,
+  LEGEND_POSITIONS,
+  LegendPosition,
+  LegendSettings,
+} from "./legend";
+import { REGION_LEVELS, RegionLevel } from "./regions";
+
+// Levels that can be painted on the main page
+export type MapLevel = "provinces" | "districts" | "subdistricts" | RegionLevel;
+
+export const MAP_LEVELS: MapLevel[] = ["provinces", "districts", "subdistricts", ...REGION_LEVELS];
+
+const LEVEL_NAMES: Record<MapLevel, string> = {
+  provinces: "จังหวัด",
+  districts: "อำเภอ",
+  subdistricts: "ตำบล",
+  region_royin: "ภาค",
+  region_nesdb: "ภาค",
+};
+
+// Version 1 is every config written before the version field existed
+export const MAP_CONFIG_VERSION = 3;
+
+export interface MapConfig {
+  version: number;
+  currentLevel: MapLevel;
+  areaColors: [string, string][];
+  selectedProvinces: string[];
+  selectedDistricts: string[];
+  // Region codes of either classification ("royin:North"), filtering the other levels
+  selectedRegions: string[];
+  // Areas whose color auto-coloring keeps
+  lockedAreas: string[];
+  borderColor: string;
+  showAreaNames: boolean;
+  // Choropleth source data, kept apart from painted colors
+  areaValues: [string, number][];
+  choropleth: ChoroplethSettings;
+  legend: {
+    show: boolean;
+    title: string;
+    position: LegendPosition;
+    labels: [string, string][];
+  };
+}
+
+export const DEFAULT_PALETTE = ["#ff3b30", "#34c759", "#007aff", "#ffcc00", "#8e8e93"];
+
+export const serializeLegend = (legend: LegendSettings): MapConfig["legend"] => ({
+  show: legend.show,
+  title: legend.title,
+  position: legend.position,
+  labels: Array.from(legend.labels.entries()),
+});
+
+export const deserializeLegend = (legend: MapConfig["legend"]): LegendSettings => ({
+  show: legend.show,
+  title: legend.title,
+  position: legend.position,
+  labels: new Map(legend.labels),
+});
+
+export const createEmptyMapConfig = (): MapConfig => ({
+  version: MAP_CONFIG_VERSION,
+  currentLevel: "provinces",
+  areaColors: [],
+  selectedProvinces: [],
+  selectedDistricts: [],
+  selectedRegions: [],
+  lockedAreas: [],
+  borderColor: "#000000",
+  showAreaNames: true,
+  areaValues: [],
+  choropleth: DEFAULT_CHOROPLETH_SETTINGS,
+  legend: serializeLegend(DEFAULT_LEGEND_SETTINGS),
+});
+
+// Migrations
+
+type RawConfig = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n config to version n + 1
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  // v1 → v2: choropleth data and legend were optional
+  1: (config) => ({
+    ...config,
+    areaValues: config.areaValues ?? [],
+    choropleth: config.choropleth ?? DEFAULT_CHOROPLETH_SETTINGS,
+    legend: config.legend ?? serializeLegend(DEFAULT_LEGEND_SETTINGS),
+    version: 2,
+  }),
+  // v2 → v3: region levels and the region filter; v2 files use neither
+  2: (config) => ({
+    ...config,
+    selectedRegions: config.selectedRegions ?? [],
+    version: 3,
+  }),
+};
+
+// Validation
+
+export interface ConfigIssue {
+  field: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  // null when there are errors
+  config: MapConfig | null;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+// Codes of the areas that exist in the loaded data, per level
+export type KnownAreaCodes = Partial<Record<MapLevel, Set<string>>>;
+
+const MAX_LISTED_CODES = 10;
+
+const isRecord = (value: unknown): value is RawConfig =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCodeString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+const listCodes = (codes: string[]): string =>
+  codes.length > MAX_LISTED_CODES
+    ? `${codes.slice(0, MAX_LISTED_CODES).join(", ")} และอีก ${codes.length - MAX_LISTED_CODES} รหัส`
+    : codes.join(", ");
+
+// Row numbers are 1-based for people reading the report
+const listRows = (indexes: number[]): string =>
+  listCodes(indexes.map((index) => String(index + 1)));
+
+const validateChoropleth = (value: unknown): ChoroplethSettings | null => {
+  if (!isRecord(value)) return null;
+  const { method, classCount, rampId, reverseRamp, manualBreaks } = value;
+
+  if (!CLASSIFICATION_METHODS.some((item) => item.value === method)) return null;
+  if (
+    typeof classCount !== "number" ||
+    !Number.isInteger(classCount) ||
+    classCount < MIN_CLASS_COUNT ||
+    classCount > MAX_CLASS_COUNT
+  ) {
+    return null;
+  }
+  if (!COLOR_RAMPS.some((ramp) => ramp.id === rampId)) return null;
+  if (typeof reverseRamp !== "boolean") return null;
+  if (
+    !Array.isArray(manualBreaks) ||
+    !manualBreaks.every((item) => typeof item === "number" && Number.isFinite(item))
+  ) {
+    return null;
+  }
+
+  return {
+    method: method as ChoroplethSettings["method"],
+    classCount,
+    rampId: rampId as string,
+    reverseRamp,
+    manualBreaks: manualBreaks as number[],
+  };
+};
+
+const validateLegend = (value: unknown): MapConfig["legend"] | null => {
+  if (!isRecord(value)) return null;
+  const { show, title, position, labels } = value;
+
+  if (typeof show !== "boolean" || typeof title !== "string") return null;
+  if (!LEGEND_POSITIONS.includes(position as LegendPosition)) return null;
+  if (
+    !Array.isArray(labels) ||
+    !labels.every(
+      (item) => Array.isArray(item) && typeof item[0] === "string" && typeof item[1] === "string"
+    )
+  ) {
+    return null;
+  }
+
+  return { show, title, position: position as LegendPosition, labels: labels as [string, string][] };
+};
+
+// Keep valid codes; codes missing from the loaded data are dropped from filters
+const validateCodeList = (
+  value: unknown,
+  field: string,
+  levels: MapLevel[],
+  knownCodes: KnownAreaCodes,
+  errors: ConfigIssue[],
+  warnings: ConfigIssue[]
+): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: "ต้องเป็นรายการรหัส (array)" });
+    return [];
+  }
+
+  const codes = value.filter(isCodeString).map((code) => code.trim());
+  if (codes.length < value.length) {
+    warnings.push({ field, message: `ข้ามค่าที่ไม่ใช่รหัส ${value.length - codes.length} รายการ` });
+  }
+
+  const knownSets = levels.map((level) => knownCodes[level]);
+  if (knownSets.some((set) => !set)) return codes;
+  const isKnown = (code: string) => knownSets.some((set) => set!.has(code));
+
+  const unknown = codes.filter((code) => !isKnown(code));
+  if (unknown.length > 0) {
+    const levelName = new Set(levels.map((level) => LEVEL_NAMES[level])).size === 1 ? LEVEL_NAMES[levels[0]] : "พื้นที่";
+    warnings.push({
+      field,
+      message: `ไม่พบรหัส${levelName} ${unknown.length} รหัส (${listCodes(unknown)}) จึงไม่ได้นำมาใช้`,
+    });
+  }
+  return codes.filter(isKnown);
+};
+
+export const validateMapConfig = (
+  raw: unknown,
+  knownCodes: KnownAreaCodes = {}
+): ConfigValidationResult => {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+  const fail = (): ConfigValidationResult => ({ config: null, errors, warnings });
+
+  if (!isRecord(raw)) {
+    errors.push({ field: "(ทั้งไฟล์)", message: "ไม่ใช่การตั้งค่าแผนที่ (ต้องเป็น JSON object)" });
+    return fail();
+  }
+
+  // Upgrade to the current version first
+  const version = raw.version ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    errors.push({ field: "version", message: `เวอร์ชันไม่ถูกต้อง: ${JSON.stringify(raw.version)}` });
+    return fail();
+  }
+  if (version > MAP_CONFIG_VERSION) {
+    errors.push({
+      field: "version",
+      message: `ไฟล์เป็นเวอร์ชัน ${version} ซึ่งใหม่กว่าที่โปรแกรมนี้รองรับ (${MAP_CONFIG_VERSION})`,
+    });
+    return fail();
+  }
+
+  let config: RawConfig = raw;
+  for (let v = version; v < MAP_CONFIG_VERSION; v++) {
+    config = MIGRATIONS[v](config);
+  }
+
+  const defaults = createEmptyMapConfig();
+
+  // currentLevel
+  const currentLevel = config.currentLevel as MapLevel;
+  if (!MAP_LEVELS.includes(currentLevel)) {
+    errors.push({
+      field: "currentLevel",
+      message: `ระดับ "${String(config.currentLevel)}" ไม่รู้จัก (ต้องเป็น ${MAP_LEVELS.join(", ")})`,
+    });
+  }
+
+  // areaColors: colors of any level may be kept, so codes are checked against all levels
+  const areaColors: [string, string][] = [];
+  if (!Array.isArray(config.areaColors)) {
+    errors.push({ field: "areaColors", message: "ต้องเป็นรายการคู่ [รหัส, สี]" });
+  } else {
+    const invalidRows: number[] = [];
+    config.areaColors.forEach((item, index) => {
+      if (
+        Array.isArray(item) &&
+        isCodeString(item[0]) &&
+        typeof item[1] === "string" &&
+        item[1].trim() !== ""
+      ) {
+        areaColors.push([item[0].trim(), item[1].trim()]);
+      } else {
+        invalidRows.push(index);
+      }
+    });
+    if (invalidRows.length > 0) {
+      warnings.push({
+        field: "areaColors",
+        message: `ข้ามรายการที่ไม่ใช่คู่ [รหัส, สี] ${invalidRows.length} รายการ (ลำดับที่ ${listRows(invalidRows)})`,
+      });
+    }
+
+    const knownSets = MAP_LEVELS.map((level) => knownCodes[level]).filter(
+      (set): set is Set<string> => Boolean(set)
+    );
+    if (knownSets.length === MAP_LEVELS.length) {
+      const unknown = areaColors
+        .map(([code]) => code)
+        .filter((code) => !knownSets.some((set) => set.has(code)));
+      if (unknown.length > 0) {
+        warnings.push({
+          field: "areaColors",
+          message: `ไม่พบรหัสพื้นที่ ${unknown.length} รหัสในข้อมูลแผนที่ (${listCodes(unknown)})`,
+        });
+      }
+    }
+  }
+
+  // Filters
+  const selectedProvinces = validateCodeList(
+    config.selectedProvinces, "selectedProvinces", ["provinces"], knownCodes, errors, warnings
+  );
+  const selectedDistricts = validateCodeList(
+    config.selectedDistricts, "selectedDistricts", ["districts"], knownCodes, errors, warnings
+  );
+  const selectedRegions = validateCodeList(
+    config.selectedRegions, "selectedRegions", REGION_LEVELS, knownCodes, errors, warnings
+  );
+  const lockedAreas = validateCodeList(
+    config.lockedAreas, "lockedAreas", MAP_LEVELS, knownCodes, errors, warnings
+  );
+
+  // Display options fall back to defaults
+  let borderColor = defaults.borderColor;
+  if (typeof config.borderColor === "string" && config.borderColor.trim() !== "") {
+    borderColor = config.borderColor.trim();
+  } else if (config.borderColor !== undefined) {
+    warnings.push({ field: "borderColor", message: `สีเส้นไม่ถูกต้อง ใช้ ${borderColor} แทน` });
+  }
+
+  let showAreaNames = defaults.showAreaNames;
+  if (typeof config.showAreaNames === "boolean") {
+    showAreaNames = config.showAreaNames;
+  } else if (config.showAreaNames !== undefined) {
+    warnings.push({ field: "showAreaNames", message: "ต้องเป็น true หรือ false ใช้ค่าเริ่มต้นแทน" });
+  }
+
+  // Choropleth data and settings
+  const areaValues: [string, number][] = [];
+  if (!Array.isArray(config.areaValues)) {
+    warnings.push({ field: "areaValues", message: "ต้องเป็นรายการคู่ [รหัส, ค่า] จึงไม่ได้นำเข้าข้อมูล" });
+  } else {
+    const invalidRows: number[] = [];
+    config.areaValues.forEach((item, index) => {
+      if (
+        Array.isArray(item) &&
+        isCodeString(item[0]) &&
+        typeof item[1] === "number" &&
+        Number.isFinite(item[1])
+      ) {
+        areaValues.push([item[0].trim(), item[1]]);
+      } else {
+        invalidRows.push(index);
+      }
+    });
+    if (invalidRows.length > 0) {
+      warnings.push({
+        field: "areaValues",
+        message: `ข้ามรายการที่ไม่ใช่คู่ [รหัส, ตัวเลข] ${invalidRows.length} รายการ (ลำดับที่ ${listRows(invalidRows)})`,
+      });
+    }
+  }
+
+  let choropleth = validateChoropleth(config.choropleth);
+  if (!choropleth) {
+    warnings.push({ field: "choropleth", message: "การตั้งค่าการจำแนกไม่ถูกต้อง ใช้ค่าเริ่มต้นแทน" });
+    choropleth = defaults.choropleth;
+  }
+
+  let legend = validateLegend(config.legend);
+  if (!legend) {
+    warnings.push({ field: "legend", message: "การตั้งค่าคำอธิบายสัญลักษณ์ไม่ถูกต้อง ใช้ค่าเริ่มต้นแทน" });
+    legend = defaults.legend;
+  }
+
+  if (errors.length > 0) return fail();
+
+  return {
+    config: {
+      version: MAP_CONFIG_VERSION,
+      currentLevel,
+      areaColors,
+      selectedProvinces,
+      selectedDistricts,
+      selectedRegions,
+      lockedAreas,
+      borderColor,
+      showAreaNames,
+      areaValues,
+      choropleth,
+      legend,
+    },
+    errors,
+    warnings,
+  };
+};
+
+const formatIssues = (issues: ConfigIssue[]): string =>
+  issues.map((issue) => `• ${issue.field}: ${issue.message}`).join("\n");
+
+// Multi-line report for alerts
+export const formatValidationReport = (result: ConfigValidationResult): string => {
+  const sections: string[] = [];
+  if (result.errors.length > 0) {
+    sections.push(`ข้อผิดพลาด:\n${formatIssues(result.errors)}`);
+  }
+  if (result.warnings.length > 0) {
+    sections.push(`คำเตือน:\n${formatIssues(result.warnings)}`);
+  }
+  return sections.join("\n\n");
+};
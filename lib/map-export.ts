@@ -0,0 +1,298 @@
+// Image export: renders a snapshot of the map view to SVG and PNG.
+import { LegendEntry, LegendPosition, getLegendEntryText } from "./legend";
+
+export interface SnapshotPath {
+  d: string;
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+}
+
+export interface SnapshotLabel {
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+}
+
+// Everything visible in the map viewport, in container pixel coordinates
+export interface MapSnapshot {
+  width: number;
+  height: number;
+  paths: SnapshotPath[];
+  labels: SnapshotLabel[];
+  // Ground distance covered by one pixel at the view center
+  metersPerPixel: number;
+}
+
+export interface LegendLayout {
+  title: string;
+  entries: LegendEntry[];
+  position: LegendPosition;
+}
+
+export interface ImageExportOptions {
+  title?: string;
+  legend?: LegendLayout;
+}
+
+export type ImageFormat = "png" | "svg";
+
+export const PNG_SCALES: { value: number; label: string }[] = [
+  { value: 1, label: "1x (96 DPI)" },
+  { value: 2, label: "2x (192 DPI)" },
+  { value: 3, label: "3x (288 DPI)" },
+  { value: 4, label: "4x (384 DPI)" },
+];
+
+export const FONT_FAMILY = "Arial, Helvetica, sans-serif";
+const TITLE_HEIGHT = 44;
+const LEGEND_MARGIN = 10;
+const LEGEND_PADDING = 8;
+const LEGEND_ROW_HEIGHT = 18;
+const LEGEND_FONT_SIZE = 12;
+
+export const escapeXML = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Text width in pixels; falls back to an estimate outside the browser
+export const measureTextWidth = (text: string, fontSize: number, bold = false): number => {
+  if (typeof document !== "undefined") {
+    if (!measureContext) {
+      measureContext = document.createElement("canvas").getContext("2d");
+    }
+    if (measureContext) {
+      measureContext.font = `${bold ? "bold " : ""}${fontSize}px ${FONT_FAMILY}`;
+      return measureContext.measureText(text).width;
+    }
+  }
+  return text.length * fontSize * 0.6;
+};
+
+const renderPath = (path: SnapshotPath): string =>
+  `<path d="${path.d}" fill="${path.fill}" fill-opacity="${path.fillOpacity}" ` +
+  `stroke="${path.stroke}" stroke-width="${path.strokeWidth}" stroke-opacity="${path.strokeOpacity}" ` +
+  `fill-rule="evenodd" stroke-linejoin="round" stroke-linecap="round"/>`;
+
+const renderLabel = (label: SnapshotLabel): string =>
+  `<text x="${label.x.toFixed(1)}" y="${label.y.toFixed(1)}" font-size="${label.fontSize}" ` +
+  `font-weight="bold" text-anchor="middle" dominant-baseline="central" fill="#000" ` +
+  `stroke="#fff" stroke-opacity="0.8" stroke-width="2" paint-order="stroke">${escapeXML(label.text)}</text>`;
+
+// Fills, borders and labels of a snapshot, in snapshot pixel coordinates
+export const renderSnapshotContent = (snapshot: MapSnapshot): string =>
+  [
+    ...snapshot.paths.map(renderPath),
+    `<g font-family="${FONT_FAMILY}">`,
+    ...snapshot.labels.map(renderLabel),
+    "</g>",
+  ].join("\n");
+
+export const renderLegendSVG = (
+  legend: LegendLayout,
+  areaWidth: number,
+  areaHeight: number,
+  offsetY: number = 0
+): string => {
+  if (legend.entries.length === 0) return "";
+
+  const rows = legend.entries.map((entry) => {
+    const text = getLegendEntryText(entry);
+    return entry.label && entry.range ? `${text} (${entry.range})` : text;
+  });
+  const titleWidth = legend.title
+    ? measureTextWidth(legend.title, LEGEND_FONT_SIZE + 1, true)
+    : 0;
+  const rowsWidth = Math.max(
+    ...rows.map((row) => measureTextWidth(row, LEGEND_FONT_SIZE) + 22)
+  );
+  const width = Math.ceil(Math.max(titleWidth, rowsWidth) + LEGEND_PADDING * 2);
+  const titleRows = legend.title ? 1 : 0;
+  const height = (rows.length + titleRows) * LEGEND_ROW_HEIGHT + LEGEND_PADDING * 2;
+
+  const x = legend.position.endsWith("left")
+    ? LEGEND_MARGIN
+    : areaWidth - width - LEGEND_MARGIN;
+  const y =
+    offsetY +
+    (legend.position.startsWith("top")
+      ? LEGEND_MARGIN
+      : areaHeight - height - LEGEND_MARGIN);
+
+  const parts: string[] = [
+    `<g transform="translate(${x},${y})" font-family="${FONT_FAMILY}" font-size="${LEGEND_FONT_SIZE}">`,
+    `<rect width="${width}" height="${height}" fill="#fff" stroke="#1f2937" stroke-width="2" rx="2"/>`,
+  ];
+
+  let rowY = LEGEND_PADDING;
+  if (legend.title) {
+    parts.push(
+      `<text x="${LEGEND_PADDING}" y="${rowY + LEGEND_ROW_HEIGHT / 2}" font-weight="bold" ` +
+      `font-size="${LEGEND_FONT_SIZE + 1}" dominant-baseline="central" fill="#1f2937">${escapeXML(legend.title)}</text>`
+    );
+    rowY += LEGEND_ROW_HEIGHT;
+  }
+
+  legend.entries.forEach((entry, index) => {
+    parts.push(
+      `<rect x="${LEGEND_PADDING}" y="${rowY + 3}" width="16" height="12" fill="${entry.color}" stroke="#6b7280"/>`,
+      `<text x="${LEGEND_PADDING + 22}" y="${rowY + LEGEND_ROW_HEIGHT / 2}" dominant-baseline="central" ` +
+      `fill="#374151">${escapeXML(rows[index])}</text>`
+    );
+    rowY += LEGEND_ROW_HEIGHT;
+  });
+
+  parts.push("</g>");
+  return parts.join("");
+};
+
+export const renderSnapshotToSVG = (
+  snapshot: MapSnapshot,
+  options: ImageExportOptions = {}
+): string => {
+  const titleHeight = options.title ? TITLE_HEIGHT : 0;
+  const { width, height } = getImageSize(snapshot, options);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+  ];
+
+  if (options.title) {
+    parts.push(
+      `<text x="${width / 2}" y="${titleHeight / 2}" font-family="${FONT_FAMILY}" font-size="20" ` +
+      `font-weight="bold" text-anchor="middle" dominant-baseline="central" fill="#1f2937">${escapeXML(options.title)}</text>`
+    );
+  }
+
+  parts.push(
+    `<defs><clipPath id="map-clip"><rect width="${snapshot.width}" height="${snapshot.height}"/></clipPath></defs>`,
+    `<g transform="translate(0,${titleHeight})" clip-path="url(#map-clip)">`,
+    renderSnapshotContent(snapshot),
+    "</g>"
+  );
+
+  if (options.legend) {
+    parts.push(renderLegendSVG(options.legend, snapshot.width, snapshot.height, titleHeight));
+  }
+
+  parts.push("</svg>");
+  return parts.join("\n");
+};
+
+// Rasterize an SVG document; scale multiplies the output resolution
+export const rasterizeSVG = (
+  svg: string,
+  width: number,
+  height: number,
+  scale: number = 1,
+  type: "image/png" | "image/jpeg" = "image/png",
+  quality?: number
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+
+      // JPEG has no alpha channel; paint the page white first
+      context.fillStyle = "#fff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error(`Failed to encode ${type}`));
+        }
+      }, type, quality);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render SVG"));
+    };
+    image.src = url;
+  });
+};
+
+// Output size in CSS pixels, including the title band
+export const getImageSize = (
+  snapshot: MapSnapshot,
+  options: ImageExportOptions = {}
+): { width: number; height: number } => ({
+  width: snapshot.width,
+  height: snapshot.height + (options.title ? TITLE_HEIGHT : 0),
+});
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement("a");
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoked once the browser has had time to start the download
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
+
+export const exportMapImage = async (
+  snapshot: MapSnapshot,
+  format: ImageFormat,
+  options: ImageExportOptions,
+  scale: number = 1
+) => {
+  const svg = renderSnapshotToSVG(snapshot, options);
+  const date = new Date().toISOString().split("T")[0];
+
+  if (format === "svg") {
+    downloadBlob(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }), `thailand-map-${date}.svg`);
+    return;
+  }
+
+  const { width, height } = getImageSize(snapshot, options);
+  const png = await rasterizeSVG(svg, width, height, scale);
+  downloadBlob(png, `thailand-map-${date}.png`);
+};
+
+// Small JPEG data URL of the snapshot, used as a project thumbnail
+export const renderSnapshotThumbnail = async (
+  snapshot: MapSnapshot,
+  maxWidth: number = 240
+): Promise<string> => {
+  const svg = renderSnapshotToSVG({ ...snapshot, labels: [] });
+  const scale = Math.min(1, maxWidth / snapshot.width);
+  const jpeg = await rasterizeSVG(svg, snapshot.width, snapshot.height, scale, "image/jpeg", 0.8);
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read thumbnail"));
+    reader.readAsDataURL(jpeg);
+  });
+};
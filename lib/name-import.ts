@@ -0,0 +1,445 @@
+// Color and value import by area code or name. Spreadsheets from government
+// offices often have Thai or English names instead of admin codes; this module
+// works out which column holds what and resolves each row to an area code,
+// using parent-name columns (province, district) to tell apart areas that
+// share a name.
+import { normalizeAdminName } from "./admin-names";
+import { parseNumber } from "./csv";
+import { MapLevel } from "./map-config";
+import { REGION_SCHEME_NAMES, isRegionLevel } from "./regions";
+
+export type NameLanguage = "th" | "en";
+
+export interface AreaNameRecord {
+  code: string;
+  level: MapLevel;
+  nameTh: string;
+  nameEn: string;
+  // Empty for regions
+  provinceCode: string;
+  districtCode?: string;
+}
+
+export interface ColumnDetection {
+  hasHeader: boolean;
+  codeColumn: number | null;
+  nameColumn: number | null;
+  nameLevel: MapLevel | null;
+  nameLanguage: NameLanguage | null;
+  provinceColumn: number | null;
+  districtColumn: number | null;
+  colorColumn: number | null;
+  valueColumn: number | null;
+}
+
+// invalid: the row has neither a usable color nor a usable value
+export type RowMatchStatus = "matched" | "ambiguous" | "unmatched" | "invalid";
+
+export interface RowMatch {
+  // Index into the parsed rows (header included)
+  row: number;
+  // The code or name as written in the file
+  text: string;
+  color?: string;
+  value?: number;
+  status: RowMatchStatus;
+  code?: string;
+  // Possible areas for ambiguous rows, close names for unmatched rows
+  candidates: AreaNameRecord[];
+  // Problems found in the row, for the import report
+  issues: string[];
+}
+
+// Finest level first; a column's level is the finest one it matches best
+const LEVEL_ORDER: MapLevel[] = ["subdistricts", "districts", "provinces", "region_nesdb", "region_royin"];
+
+const LEVEL_NAMES: Record<MapLevel, string> = {
+  provinces: "จังหวัด",
+  districts: "อำเภอ",
+  subdistricts: "ตำบล",
+  region_royin: "ภาค",
+  region_nesdb: "ภาค",
+};
+
+const DETECTION_SAMPLE_SIZE = 500;
+const MIN_CODE_RATIO = 0.6;
+const MIN_NAME_RATIO = 0.5;
+const MIN_PARENT_RATIO = 0.5;
+const MIN_COLOR_RATIO = 0.5;
+const MIN_VALUE_RATIO = 0.8;
+const MAX_SUGGESTIONS = 8;
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string): boolean => HEX_COLOR_PATTERN.test(value.trim());
+
+// Any CSS color in the browser, hex colors elsewhere
+export const isValidColor = (value: string): boolean =>
+  typeof CSS !== "undefined" && typeof CSS.supports === "function"
+    ? CSS.supports("color", value.trim())
+    : isHexColor(value);
+
+export class AreaNameIndex {
+  private byCode = new Map<string, AreaNameRecord>();
+  private byName: Record<NameLanguage, Record<MapLevel, Map<string, AreaNameRecord[]>>> = {
+    th: {
+      provinces: new Map(), districts: new Map(), subdistricts: new Map(), region_royin: new Map(), region_nesdb: new Map(),
+    },
+    en: {
+      provinces: new Map(), districts: new Map(), subdistricts: new Map(), region_royin: new Map(), region_nesdb: new Map(),
+    },
+  };
+
+  constructor(records: AreaNameRecord[]) {
+    records.forEach((record) => {
+      this.byCode.set(record.code, record);
+      this.addName("th", record, record.nameTh);
+      this.addName("en", record, record.nameEn);
+    });
+  }
+
+  private addName(language: NameLanguage, record: AreaNameRecord, name: string) {
+    const key = normalizeAdminName(name || "");
+    if (!key) return;
+    const map = this.byName[language][record.level];
+    const list = map.get(key);
+    if (list) {
+      list.push(record);
+    } else {
+      map.set(key, [record]);
+    }
+  }
+
+  get size(): number {
+    return this.byCode.size;
+  }
+
+  getByCode(code: string): AreaNameRecord | undefined {
+    return this.byCode.get(code.trim());
+  }
+
+  findByName(level: MapLevel, name: string, language?: NameLanguage): AreaNameRecord[] {
+    const key = normalizeAdminName(name);
+    if (!key) return [];
+    const languages: NameLanguage[] = language ? [language] : ["th", "en"];
+    const found = new Set<AreaNameRecord>();
+    languages.forEach((lang) => {
+      this.byName[lang][level].get(key)?.forEach((record) => found.add(record));
+    });
+    return Array.from(found);
+  }
+
+  // Whether the province (or district) containing the record has this name
+  hasParentNamed(record: AreaNameRecord, parentLevel: "provinces" | "districts", name: string): boolean {
+    const parentCode = parentLevel === "provinces" ? record.provinceCode : record.districtCode;
+    const parent = parentCode ? this.byCode.get(parentCode) : undefined;
+    if (!parent) return false;
+    const key = normalizeAdminName(name);
+    return normalizeAdminName(parent.nameTh) === key || normalizeAdminName(parent.nameEn) === key;
+  }
+
+  // Areas whose names start with or contain the text, for rows without an exact match
+  suggest(level: MapLevel, name: string, limit: number = MAX_SUGGESTIONS): AreaNameRecord[] {
+    const key = normalizeAdminName(name);
+    if (!key) return [];
+
+    const prefixMatches: AreaNameRecord[] = [];
+    const containsMatches: AreaNameRecord[] = [];
+    (["th", "en"] as NameLanguage[]).forEach((language) => {
+      this.byName[language][level].forEach((records, recordKey) => {
+        if (recordKey.startsWith(key) || key.startsWith(recordKey)) {
+          prefixMatches.push(...records);
+        } else if (recordKey.includes(key) || key.includes(recordKey)) {
+          containsMatches.push(...records);
+        }
+      });
+    });
+
+    return Array.from(new Set([...prefixMatches, ...containsMatches])).slice(0, limit);
+  }
+
+  // e.g. "ตำบลสุเทพ อำเภอเมืองเชียงใหม่ จังหวัดเชียงใหม่"
+  describe(record: AreaNameRecord): string {
+    if (isRegionLevel(record.level)) return `${record.nameTh} (${REGION_SCHEME_NAMES[record.level]})`;
+    const parts = [`${LEVEL_NAMES[record.level]}${record.nameTh}`];
+    if (record.districtCode && record.level === "subdistricts") {
+      const district = this.byCode.get(record.districtCode);
+      if (district) parts.push(`${LEVEL_NAMES.districts}${district.nameTh}`);
+    }
+    if (record.level !== "provinces") {
+      const province = this.byCode.get(record.provinceCode);
+      if (province) parts.push(`${LEVEL_NAMES.provinces}${province.nameTh}`);
+    }
+    return parts.join(" ");
+  }
+}
+
+// Column detection
+
+const ratio = (values: string[], predicate: (value: string) => boolean): number => {
+  const filled = values.filter((value) => value.trim() !== "");
+  if (filled.length === 0) return 0;
+  return filled.filter(predicate).length / filled.length;
+};
+
+const getColumn = (rows: string[][], column: number): string[] =>
+  rows.map((row) => row[column] || "");
+
+interface NameColumnScore {
+  column: number;
+  level: MapLevel;
+  language: NameLanguage;
+  ratio: number;
+}
+
+// Best level/language for a column; on equal scores the coarser level wins,
+// since many subdistricts share the name of their district
+const scoreNameColumn = (
+  values: string[],
+  column: number,
+  index: AreaNameIndex
+): NameColumnScore | null => {
+  let best: NameColumnScore | null = null;
+  for (const level of LEVEL_ORDER) {
+    for (const language of ["th", "en"] as NameLanguage[]) {
+      const score = ratio(values, (value) => index.findByName(level, value, language).length > 0);
+      if (score > 0 && (!best || score >= best.ratio)) {
+        best = { column, level, language, ratio: score };
+      }
+    }
+  }
+  return best;
+};
+
+export const detectColumns = (rows: string[][], index: AreaNameIndex): ColumnDetection => {
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const isKnownCell = (value: string) =>
+    Boolean(index.getByCode(value)) ||
+    isHexColor(value) ||
+    LEVEL_ORDER.some((level) => index.findByName(level, value).length > 0);
+
+  // A header row has no codes, names or colors in it
+  const hasHeader = rows.length > 1 && !rows[0].some((cell) => cell.trim() && isKnownCell(cell));
+  const sample = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + DETECTION_SAMPLE_SIZE);
+  const columns = Array.from({ length: columnCount }, (_, column) => getColumn(sample, column));
+
+  // Color: the most hex-looking column, otherwise the last one (the old CSV layout)
+  let colorColumn: number | null = columnCount > 0 ? columnCount - 1 : null;
+  let bestColorRatio = MIN_COLOR_RATIO;
+  columns.forEach((values, column) => {
+    const score = ratio(values, isHexColor);
+    if (score > bestColorRatio) {
+      bestColorRatio = score;
+      colorColumn = column;
+    }
+  });
+
+  // Code: any level, the old layout has it first
+  let codeColumn: number | null = null;
+  let bestCodeRatio = MIN_CODE_RATIO;
+  columns.forEach((values, column) => {
+    if (column === colorColumn) return;
+    const score = ratio(values, (value) => Boolean(index.getByCode(value)));
+    if (score > bestCodeRatio) {
+      bestCodeRatio = score;
+      codeColumn = column;
+    }
+  });
+
+  // Names: the finest-level column is the one to color, coarser ones are parents
+  const nameScores = columns
+    .map((values, column) =>
+      column === colorColumn || column === codeColumn ? null : scoreNameColumn(values, column, index)
+    )
+    .filter((score): score is NameColumnScore => score !== null);
+
+  const bestForLevel = (level: MapLevel, minRatio: number, exclude: number[] = []) =>
+    nameScores
+      .filter((score) => score.level === level && score.ratio >= minRatio && !exclude.includes(score.column))
+      .sort((a, b) => b.ratio - a.ratio || a.column - b.column)[0] || null;
+
+  let nameScore: NameColumnScore | null = null;
+  for (const level of LEVEL_ORDER) {
+    nameScore = bestForLevel(level, MIN_NAME_RATIO);
+    if (nameScore) break;
+  }
+
+  let provinceColumn: number | null = null;
+  let districtColumn: number | null = null;
+  if (nameScore && nameScore.level !== "provinces") {
+    provinceColumn = bestForLevel("provinces", MIN_PARENT_RATIO, [nameScore.column])?.column ?? null;
+  }
+  if (nameScore && nameScore.level === "subdistricts") {
+    districtColumn = bestForLevel("districts", MIN_PARENT_RATIO, [nameScore.column])?.column ?? null;
+  }
+
+  // Without codes or names in the data, assume the old layout with codes first
+  if (codeColumn === null && !nameScore && columnCount > 1) {
+    codeColumn = 0;
+  }
+
+  // Value: the last mostly-numeric column that is not a code (own or parent)
+  let valueColumn: number | null = null;
+  columns.forEach((values, column) => {
+    if (column === codeColumn) return;
+    if (ratio(values, (value) => Boolean(index.getByCode(value))) >= MIN_CODE_RATIO) return;
+    if (ratio(values, (value) => Number.isFinite(parseNumber(value))) >= MIN_VALUE_RATIO) {
+      valueColumn = column;
+    }
+  });
+
+  return {
+    hasHeader,
+    codeColumn,
+    nameColumn: nameScore?.column ?? null,
+    nameLevel: nameScore?.level ?? null,
+    nameLanguage: nameScore?.language ?? null,
+    provinceColumn,
+    districtColumn,
+    colorColumn,
+    valueColumn,
+  };
+};
+
+// Human-readable summary of the detection, for the match report
+export const describeDetection = (detection: ColumnDetection, header?: string[]): string[] => {
+  const columnName = (column: number) =>
+    header?.[column]?.trim() ? `"${header[column].trim()}"` : `คอลัมน์ที่ ${column + 1}`;
+  const lines: string[] = [];
+
+  if (detection.codeColumn !== null) {
+    lines.push(`รหัสพื้นที่: ${columnName(detection.codeColumn)}`);
+  }
+  if (detection.nameColumn !== null && detection.nameLevel) {
+    const language = detection.nameLanguage === "en" ? "ภาษาอังกฤษ" : "ภาษาไทย";
+    lines.push(`ชื่อ${LEVEL_NAMES[detection.nameLevel]} (${language}): ${columnName(detection.nameColumn)}`);
+  }
+  if (detection.districtColumn !== null) {
+    lines.push(`ชื่ออำเภอ: ${columnName(detection.districtColumn)}`);
+  }
+  if (detection.provinceColumn !== null) {
+    lines.push(`ชื่อจังหวัด: ${columnName(detection.provinceColumn)}`);
+  }
+  if (detection.colorColumn !== null) {
+    lines.push(`สี: ${columnName(detection.colorColumn)}`);
+  }
+  if (detection.valueColumn !== null) {
+    lines.push(`ค่าข้อมูล: ${columnName(detection.valueColumn)}`);
+  }
+  return lines;
+};
+
+// Row matching
+
+// Color and value of a row; bad cells are reported and left out
+const readPayload = (
+  row: string[],
+  detection: ColumnDetection
+): { color?: string; value?: number; issues: string[] } => {
+  const issues: string[] = [];
+  let color: string | undefined;
+  let value: number | undefined;
+
+  const colorText = detection.colorColumn !== null ? (row[detection.colorColumn] || "").trim() : "";
+  if (colorText) {
+    if (isValidColor(colorText)) {
+      color = colorText;
+    } else {
+      issues.push(`สี "${colorText}" ไม่ถูกต้อง`);
+    }
+  }
+
+  const valueText = detection.valueColumn !== null ? (row[detection.valueColumn] || "").trim() : "";
+  if (valueText) {
+    const parsed = parseNumber(valueText);
+    if (Number.isFinite(parsed)) {
+      value = parsed;
+    } else {
+      issues.push(`ค่า "${valueText}" ไม่ใช่ตัวเลข`);
+    }
+  }
+
+  return { color, value, issues };
+};
+
+export const matchRows = (
+  rows: string[][],
+  detection: ColumnDetection,
+  index: AreaNameIndex
+): RowMatch[] => {
+  const matches: RowMatch[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    if (detection.hasHeader && rowIndex === 0) return;
+
+    const codeText = detection.codeColumn !== null ? (row[detection.codeColumn] || "").trim() : "";
+    const nameText = detection.nameColumn !== null ? (row[detection.nameColumn] || "").trim() : "";
+    const text = codeText || nameText;
+    const { color, value, issues } = readPayload(row, detection);
+
+    // Rows with nothing to import are skipped, unless something in them was wrong
+    if (color === undefined && value === undefined) {
+      if (issues.length > 0) {
+        matches.push({ row: rowIndex, text, status: "invalid", candidates: [], issues });
+      }
+      return;
+    }
+
+    const base = { row: rowIndex, text, color, value, issues };
+
+    // A known code wins over the name; without area data codes are taken as they are
+    if (codeText && (index.size === 0 || index.getByCode(codeText))) {
+      matches.push({ ...base, status: "matched", code: codeText, candidates: [] });
+      return;
+    }
+
+    const level = detection.nameLevel;
+    if (!level || !nameText) {
+      matches.push({
+        ...base,
+        status: "unmatched",
+        candidates: [],
+        issues: [...issues, text ? `ไม่พบรหัส "${text}"` : "ไม่มีรหัสหรือชื่อพื้นที่"],
+      });
+      return;
+    }
+
+    let candidates = index.findByName(level, nameText);
+    if (candidates.length === 0) {
+      matches.push({
+        ...base,
+        text: nameText,
+        status: "unmatched",
+        candidates: index.suggest(level, nameText),
+        issues: [...issues, `ไม่พบชื่อ${LEVEL_NAMES[level]} "${nameText}"`],
+      });
+      return;
+    }
+
+    // Narrow down shared names with the parent columns that are filled in
+    const parents: ["provinces" | "districts", number | null][] = [
+      ["provinces", detection.provinceColumn],
+      ["districts", detection.districtColumn],
+    ];
+    parents.forEach(([parentLevel, column]) => {
+      const parentName = column !== null ? (row[column] || "").trim() : "";
+      if (!parentName || candidates.length <= 1) return;
+      const narrowed = candidates.filter((record) => index.hasParentNamed(record, parentLevel, parentName));
+      if (narrowed.length > 0) candidates = narrowed;
+    });
+
+    matches.push(
+      candidates.length === 1
+        ? { ...base, text: nameText, status: "matched", code: candidates[0].code, candidates: [] }
+        : {
+          ...base,
+          text: nameText,
+          status: "ambiguous",
+          candidates,
+          issues: [...issues, `มี${LEVEL_NAMES[level]}ชื่อ "${nameText}" ${candidates.length} แห่ง`],
+        }
+    );
+  });
+
+  return matches;
+};
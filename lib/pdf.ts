@@ -0,0 +1,75 @@
+// Minimal single-page PDF writer: places one JPEG image over the whole page.
+// Text is rasterized into the image, which keeps Thai glyphs intact without
+// having to embed a font.
+
+export const MM_TO_PT = 72 / 25.4;
+
+export const createImagePDF = (
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number,
+  pageHeight: number,
+  title: string = ""
+): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // PDF text strings as UTF-16BE hex so non-Latin titles survive
+  const toPDFString = (text: string): string => {
+    let hex = "FEFF";
+    for (let i = 0; i < text.length; i++) {
+      hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+    }
+    return `<${hex}>`;
+  };
+
+  const width = pageWidth.toFixed(2);
+  const height = pageHeight.toFixed(2);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  write("%PDF-1.4\n%âãÏÓ\n");
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(2, "<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  writeObject(
+    3,
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+    "/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>"
+  );
+
+  offsets[4] = length;
+  write(
+    "4 0 obj\n" +
+    `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write("\nendstream\nendobj\n");
+
+  writeObject(5, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  writeObject(6, `<< /Title ${toPDFString(title)} /Producer (thailand-map) >>`);
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+};
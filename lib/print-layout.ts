@@ -0,0 +1,253 @@
+// Print layout: composes the map snapshot with title, legend, scale bar,
+// north arrow and notes on a paper-sized page, and exports it as PDF.
+import {
+  FONT_FAMILY,
+  LegendLayout,
+  MapSnapshot,
+  downloadBlob,
+  escapeXML,
+  rasterizeSVG,
+  renderLegendSVG,
+  renderSnapshotContent,
+} from "./map-export";
+import { MM_TO_PT, createImagePDF } from "./pdf";
+
+export type PageSize = "A4" | "A3";
+export type PageOrientation = "portrait" | "landscape";
+
+export interface PrintLayoutSettings {
+  pageSize: PageSize;
+  orientation: PageOrientation;
+  title: string;
+  subtitle: string;
+  sourceNote: string;
+  showLegend: boolean;
+  showScaleBar: boolean;
+  showNorthArrow: boolean;
+  showDate: boolean;
+  dpi: number;
+}
+
+// Paper sizes in millimeters, portrait
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+};
+
+export const PRINT_DPIS = [150, 200, 300];
+
+export const DEFAULT_PRINT_LAYOUT: PrintLayoutSettings = {
+  pageSize: "A4",
+  orientation: "landscape",
+  title: "",
+  subtitle: "",
+  sourceNote: "",
+  showLegend: true,
+  showScaleBar: true,
+  showNorthArrow: true,
+  showDate: true,
+  dpi: 200,
+};
+
+const MARGIN = 10;
+const FRAME_INSET = 4;
+// One CSS pixel in millimeters (96 DPI); used to draw pixel-sized parts on the page
+const PX_TO_MM = 25.4 / 96;
+
+export const getPageDimensions = (
+  settings: PrintLayoutSettings
+): { width: number; height: number } => {
+  const size = PAGE_SIZES[settings.pageSize];
+  return settings.orientation === "portrait"
+    ? { width: size.width, height: size.height }
+    : { width: size.height, height: size.width };
+};
+
+// Largest 1-2-5 step not greater than the value
+const niceLength = (value: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const residual = value / magnitude;
+  if (residual >= 5) return 5 * magnitude;
+  if (residual >= 2) return 2 * magnitude;
+  return magnitude;
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000
+    ? `${(meters / 1000).toLocaleString("th-TH")} กม.`
+    : `${meters.toLocaleString("th-TH")} ม.`;
+
+const renderScaleBar = (
+  x: number,
+  y: number,
+  maxWidth: number,
+  metersPerMM: number,
+  alignRight: boolean
+): string => {
+  const meters = niceLength(maxWidth * metersPerMM);
+  const width = meters / metersPerMM;
+  const left = alignRight ? x - width : x;
+  const half = width / 2;
+  const ratio = Math.round(metersPerMM * 1000);
+
+  return [
+    `<g font-family="${FONT_FAMILY}" font-size="2.6" fill="#1f2937">`,
+    `<rect x="${left}" y="${y - 2}" width="${half}" height="1.6" fill="#1f2937"/>`,
+    `<rect x="${left + half}" y="${y - 2}" width="${half}" height="1.6" fill="#fff" stroke="#1f2937" stroke-width="0.3"/>`,
+    `<rect x="${left}" y="${y - 2}" width="${width}" height="1.6" fill="none" stroke="#1f2937" stroke-width="0.3"/>`,
+    `<text x="${left}" y="${y - 3}" text-anchor="start">0</text>`,
+    `<text x="${left + width}" y="${y - 3}" text-anchor="end">${escapeXML(formatDistance(meters))}</text>`,
+    `<text x="${left + width / 2}" y="${y + 2.6}" text-anchor="middle">1 : ${ratio.toLocaleString("th-TH")}</text>`,
+    "</g>",
+  ].join("");
+};
+
+const renderNorthArrow = (cx: number, top: number): string =>
+  [
+    `<g font-family="${FONT_FAMILY}" fill="#1f2937">`,
+    `<text x="${cx}" y="${top + 3.5}" font-size="4" font-weight="bold" text-anchor="middle">N</text>`,
+    `<path d="M${cx} ${top + 5} L${cx + 3} ${top + 14} L${cx} ${top + 12} Z" fill="#1f2937"/>`,
+    `<path d="M${cx} ${top + 5} L${cx - 3} ${top + 14} L${cx} ${top + 12} Z" fill="#fff" stroke="#1f2937" stroke-width="0.3"/>`,
+    "</g>",
+  ].join("");
+
+export const renderPrintLayoutSVG = (
+  snapshot: MapSnapshot,
+  settings: PrintLayoutSettings,
+  legend?: LegendLayout
+): string => {
+  const page = getPageDimensions(settings);
+  const titleSize = settings.pageSize === "A3" ? 9 : 7;
+  const subtitleSize = titleSize * 0.6;
+  const noteSize = 3;
+
+  // Header band
+  let headerHeight = 0;
+  if (settings.title) headerHeight += titleSize * 1.5;
+  if (settings.subtitle) headerHeight += subtitleSize * 1.5;
+  if (headerHeight > 0) headerHeight += 2;
+
+  // Footer band for source note and date
+  const footerHeight = settings.sourceNote || settings.showDate ? noteSize * 2.5 : 0;
+
+  const frame = {
+    x: MARGIN,
+    y: MARGIN + headerHeight,
+    width: page.width - MARGIN * 2,
+    height: page.height - MARGIN * 2 - headerHeight - footerHeight,
+  };
+
+  // The map keeps its on-screen aspect ratio and is centered in the frame
+  const mapScale = Math.min(frame.width / snapshot.width, frame.height / snapshot.height);
+  const mapWidth = snapshot.width * mapScale;
+  const mapHeight = snapshot.height * mapScale;
+  const mapX = frame.x + (frame.width - mapWidth) / 2;
+  const mapY = frame.y + (frame.height - mapHeight) / 2;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${page.width / PX_TO_MM}" height="${page.height / PX_TO_MM}" viewBox="0 0 ${page.width} ${page.height}">`,
+    `<rect width="${page.width}" height="${page.height}" fill="#fff"/>`,
+  ];
+
+  let textY = MARGIN;
+  if (settings.title) {
+    textY += titleSize * 1.1;
+    parts.push(
+      `<text x="${page.width / 2}" y="${textY}" font-family="${FONT_FAMILY}" font-size="${titleSize}" ` +
+      `font-weight="bold" text-anchor="middle" fill="#1f2937">${escapeXML(settings.title)}</text>`
+    );
+    textY += titleSize * 0.4;
+  }
+  if (settings.subtitle) {
+    textY += subtitleSize * 1.3;
+    parts.push(
+      `<text x="${page.width / 2}" y="${textY}" font-family="${FONT_FAMILY}" font-size="${subtitleSize}" ` +
+      `text-anchor="middle" fill="#4b5563">${escapeXML(settings.subtitle)}</text>`
+    );
+  }
+
+  parts.push(
+    `<svg x="${mapX}" y="${mapY}" width="${mapWidth}" height="${mapHeight}" viewBox="0 0 ${snapshot.width} ${snapshot.height}">`,
+    renderSnapshotContent(snapshot),
+    "</svg>",
+    `<rect x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" fill="none" stroke="#1f2937" stroke-width="0.5"/>`
+  );
+
+  const legendCorner = legend?.position || "bottomright";
+
+  if (settings.showLegend && legend && legend.entries.length > 0) {
+    // The legend is laid out in pixels, then scaled onto the page
+    const inset = FRAME_INSET - 10 * PX_TO_MM;
+    parts.push(
+      `<g transform="translate(${frame.x + inset},${frame.y + inset}) scale(${PX_TO_MM})">`,
+      renderLegendSVG(
+        legend,
+        (frame.width - inset * 2) / PX_TO_MM,
+        (frame.height - inset * 2) / PX_TO_MM
+      ),
+      "</g>"
+    );
+  }
+
+  if (settings.showNorthArrow) {
+    const onLeft = legendCorner === "topright";
+    const cx = onLeft ? frame.x + FRAME_INSET + 4 : frame.x + frame.width - FRAME_INSET - 4;
+    parts.push(renderNorthArrow(cx, frame.y + FRAME_INSET));
+  }
+
+  if (settings.showScaleBar && snapshot.metersPerPixel > 0) {
+    const onRight = legendCorner === "bottomleft";
+    const metersPerMM = snapshot.metersPerPixel / mapScale;
+    parts.push(
+      renderScaleBar(
+        onRight ? frame.x + frame.width - FRAME_INSET : frame.x + FRAME_INSET,
+        frame.y + frame.height - FRAME_INSET - 3,
+        frame.width / 4,
+        metersPerMM,
+        onRight
+      )
+    );
+  }
+
+  const footerY = page.height - MARGIN - noteSize * 0.6;
+  if (settings.sourceNote) {
+    parts.push(
+      `<text x="${MARGIN}" y="${footerY}" font-family="${FONT_FAMILY}" font-size="${noteSize}" ` +
+      `fill="#4b5563">${escapeXML(settings.sourceNote)}</text>`
+    );
+  }
+  if (settings.showDate) {
+    const date = new Date().toLocaleDateString("th-TH", { dateStyle: "long" });
+    parts.push(
+      `<text x="${page.width - MARGIN}" y="${footerY}" font-family="${FONT_FAMILY}" font-size="${noteSize}" ` +
+      `text-anchor="end" fill="#4b5563">${escapeXML(date)}</text>`
+    );
+  }
+
+  parts.push("</svg>");
+  return parts.join("\n");
+};
+
+export const exportPrintLayoutPDF = async (
+  snapshot: MapSnapshot,
+  settings: PrintLayoutSettings,
+  legend?: LegendLayout
+) => {
+  const page = getPageDimensions(settings);
+  const svg = renderPrintLayoutSVG(snapshot, settings, legend);
+  const scale = settings.dpi / 96;
+  const widthPx = page.width / PX_TO_MM;
+  const heightPx = page.height / PX_TO_MM;
+
+  const jpeg = await rasterizeSVG(svg, widthPx, heightPx, scale, "image/jpeg", 0.95);
+  const pdf = createImagePDF(
+    new Uint8Array(await jpeg.arrayBuffer()),
+    Math.round(widthPx * scale),
+    Math.round(heightPx * scale),
+    page.width * MM_TO_PT,
+    page.height * MM_TO_PT,
+    settings.title
+  );
+
+  downloadBlob(pdf, `thailand-map-${settings.pageSize}-${new Date().toISOString().split("T")[0]}.pdf`);
+};
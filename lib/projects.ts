@@ -0,0 +1,142 @@
+// Named map projects stored in IndexedDB. Subdistrict colorings can be far
+// larger than the localStorage quota allows, so projects live in their own
+// object store; only the id of the open project is kept in localStorage.
+import { ConfigIssue, MapConfig, createEmptyMapConfig, validateMapConfig } from "./map-config";
+
+export interface MapProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: MapConfig;
+  palette: string[];
+  // Small JPEG data URL of the map when the project was last saved
+  thumbnail?: string;
+  // Set when the stored config fails validation. The project then opens as an
+  // empty map and the stored config is written back untouched until the
+  // project is saved over
+  repair?: ProjectRepair;
+}
+
+export interface ProjectRepair {
+  rawConfig: unknown;
+  errors: ConfigIssue[];
+}
+
+const DB_NAME = "thailand-map";
+const DB_VERSION = 1;
+const STORE_NAME = "projects";
+const ACTIVE_PROJECT_STORAGE_KEY = "thailand-map-active-project";
+
+export const DEFAULT_PROJECT_NAME = "แผนที่ของฉัน";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error("Failed to open IndexedDB"));
+    });
+    // Allow a later retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"));
+  });
+};
+
+// Projects saved by older versions are migrated when read
+const upgradeProject = (project: MapProject): MapProject => {
+  const result = validateMapConfig(project.config);
+  if (!result.config) {
+    console.warn(`Project "${project.name}" has an invalid config:`, result.errors);
+    return {
+      ...project,
+      config: createEmptyMapConfig(),
+      repair: { rawConfig: project.config, errors: result.errors },
+    };
+  }
+  return { ...project, config: result.config };
+};
+
+// The stored form keeps the original config of a project that needs repair
+const toStoredProject = ({ repair, ...project }: MapProject): MapProject =>
+  repair ? { ...project, config: repair.rawConfig as MapConfig } : project;
+
+// Most recently updated first
+export const listProjects = async (): Promise<MapProject[]> => {
+  const projects = await runRequest<MapProject[]>("readonly", (store) => store.getAll());
+  return projects.map(upgradeProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<MapProject | null> => {
+  const project = await runRequest<MapProject | undefined>("readonly", (store) => store.get(id));
+  return project ? upgradeProject(project) : null;
+};
+
+export const putProject = async (project: MapProject): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(toStoredProject(project)));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(id));
+};
+
+const createProjectId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createProject = (
+  name: string,
+  config: MapConfig,
+  palette: string[],
+  thumbnail?: string
+): MapProject => {
+  const now = Date.now();
+  return { id: createProjectId(), name, createdAt: now, updatedAt: now, config, palette, thumbnail };
+};
+
+// Deep copy so the duplicate never shares arrays with the original
+export const duplicateProject = (project: MapProject, name: string): MapProject => ({
+  ...createProject(name, structuredClone(project.config), [...project.palette], project.thumbnail),
+  repair: project.repair && structuredClone(project.repair),
+});
+
+export const getStoredActiveProjectId = (): string | null => {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY);
+};
+
+export const saveActiveProjectId = (id: string) => {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, id);
+  }
+};
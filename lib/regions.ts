@@ -0,0 +1,90 @@
+// Region classifications: the Royal Institute (ROYIN) six regions and the
+// NESDB seven regions. The region files only carry the English region name,
+// and both schemes use some of the same names for different shapes, so a
+// region's code is its scheme and name together ("royin:North").
+import { GeoJSONProperties } from "./types";
+
+export type RegionLevel = "region_royin" | "region_nesdb";
+
+export const REGION_LEVELS: RegionLevel[] = ["region_royin", "region_nesdb"];
+
+// Property holding the region name in every boundary file
+export const REGION_PROPERTY: Record<RegionLevel, "reg_royin" | "reg_nesdb"> = {
+  region_royin: "reg_royin",
+  region_nesdb: "reg_nesdb",
+};
+
+export const REGION_SCHEME_NAMES: Record<RegionLevel, string> = {
+  region_royin: "ราชบัณฑิตยสภา",
+  region_nesdb: "สศช.",
+};
+
+const CODE_PREFIX: Record<RegionLevel, string> = {
+  region_royin: "royin",
+  region_nesdb: "nesdb",
+};
+
+// Names as spelled in the data ("LowwerNorth" included)
+const REGION_NAMES_TH: Record<string, string> = {
+  North: "ภาคเหนือ",
+  UpperNorth: "ภาคเหนือตอนบน",
+  LowwerNorth: "ภาคเหนือตอนล่าง",
+  LowerNorth: "ภาคเหนือตอนล่าง",
+  Northeast: "ภาคตะวันออกเฉียงเหนือ",
+  Central: "ภาคกลาง",
+  East: "ภาคตะวันออก",
+  West: "ภาคตะวันตก",
+  South: "ภาคใต้",
+};
+
+export interface RegionItem {
+  code: string;
+  level: RegionLevel;
+  name: string;
+  nameEn: string;
+}
+
+export const isRegionLevel = (level: string): level is RegionLevel =>
+  (REGION_LEVELS as string[]).includes(level);
+
+export const regionCode = (level: RegionLevel, name: string): string => `${CODE_PREFIX[level]}:${name}`;
+
+export const regionLevelOfCode = (code: string): RegionLevel | null =>
+  REGION_LEVELS.find((level) => code.startsWith(`${CODE_PREFIX[level]}:`)) || null;
+
+export const regionNameTh = (name: string): string => REGION_NAMES_TH[name] || name;
+
+// "LowwerNorth" → "Lower North"
+export const regionNameEn = (name: string): string =>
+  name.replace(/^Lowwer/, "Lower").replace(/([a-z])([A-Z])/g, "$1 $2");
+
+const text = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+
+// Code of a region feature, or of the region containing a province, district or subdistrict
+export const getRegionCode = (properties: GeoJSONProperties, level: RegionLevel): string => {
+  const name = text(properties[REGION_PROPERTY[level]]);
+  return name ? regionCode(level, name) : "";
+};
+
+// Region codes of an area in both schemes
+export const getRegionCodes = (properties: GeoJSONProperties): string[] =>
+  REGION_LEVELS.map((level) => getRegionCode(properties, level)).filter(Boolean);
+
+// An area passes when no region is selected or it lies in any selected region
+export const matchesRegionFilter = (regionCodes: string[], selectedRegions: string[]): boolean =>
+  selectedRegions.length === 0 || regionCodes.some((code) => selectedRegions.includes(code));
+
+// North to south as listed in REGION_NAMES_TH; unknown names last
+const regionOrder = (name: string): number => {
+  const index = Object.keys(REGION_NAMES_TH).indexOf(name);
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+};
+
+// Regions of both schemes that occur in the provinces, ROYIN first
+export const collectRegions = (provinces: GeoJSONProperties[]): RegionItem[] =>
+  REGION_LEVELS.flatMap((level) => {
+    const names = new Set(provinces.map((properties) => text(properties[REGION_PROPERTY[level]])).filter(Boolean));
+    return Array.from(names)
+      .sort((a, b) => regionOrder(a) - regionOrder(b) || a.localeCompare(b))
+      .map((name) => ({ code: regionCode(level, name), level, name: regionNameTh(name), nameEn: regionNameEn(name) }));
+  });
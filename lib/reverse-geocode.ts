@@ -0,0 +1,105 @@
+// Reverse geocoding: the admin areas containing a latitude/longitude. An
+// R-tree over the feature bounds narrows each lookup to the few areas whose
+// boxes hold the point, which are then tested with point-in-polygon.
+// Subdistrict features carry their district, province and regions, so looking
+// up the finest loaded level gives the whole hierarchy.
+import { Polygon, pointInRing, polygonsOf } from "./geometry";
+import { MapLevel } from "./map-config";
+import { REGION_PROPERTY, RegionLevel, getRegionCode, isRegionLevel, regionNameEn, regionNameTh } from "./regions";
+import { BBox, RTree } from "./rtree";
+import { GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONGeometry, GeoJSONProperties } from "./types";
+
+export interface AdminUnit {
+  code: string;
+  nameTh: string;
+  nameEn: string;
+}
+
+export interface AdminHierarchy {
+  // Level of the feature that was found; finer units are null
+  level: MapLevel;
+  subdistrict: AdminUnit | null;
+  district: AdminUnit | null;
+  province: AdminUnit | null;
+  regionRoyin: AdminUnit | null;
+  regionNesdb: AdminUnit | null;
+}
+
+const text = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+
+const geometryBBox = (geometry: GeoJSONGeometry): BBox => {
+  const box: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  polygonsOf(geometry).forEach((polygon) =>
+    polygon[0]?.forEach(([x, y]) => {
+      box[0] = Math.min(box[0], x);
+      box[1] = Math.min(box[1], y);
+      box[2] = Math.max(box[2], x);
+      box[3] = Math.max(box[3], y);
+    })
+  );
+  return box;
+};
+
+// Inside the outer ring and outside every hole
+const pointInPolygon = (point: number[], [outer, ...holes]: Polygon): boolean =>
+  pointInRing(point, outer) && !holes.some((hole) => pointInRing(point, hole));
+
+const unit = (code: unknown, nameTh: unknown, nameEn: unknown): AdminUnit | null =>
+  text(code) ? { code: text(code), nameTh: text(nameTh), nameEn: text(nameEn) } : null;
+
+const regionUnit = (properties: GeoJSONProperties, level: RegionLevel): AdminUnit | null => {
+  const name = text(properties[REGION_PROPERTY[level]]);
+  return name ? { code: getRegionCode(properties, level), nameTh: regionNameTh(name), nameEn: regionNameEn(name) } : null;
+};
+
+export const hierarchyOf = (properties: GeoJSONProperties, level: MapLevel): AdminHierarchy => ({
+  level,
+  subdistrict: level === "subdistricts" ? unit(properties.tam_code, properties.tam_th, properties.tam_en) : null,
+  district:
+    level === "subdistricts" || level === "districts"
+      ? unit(properties.amp_code, properties.amp_th, properties.amp_en)
+      : null,
+  province: isRegionLevel(level) ? null : unit(properties.pro_code, properties.pro_th, properties.pro_en),
+  regionRoyin: regionUnit(properties, "region_royin"),
+  regionNesdb: regionUnit(properties, "region_nesdb"),
+});
+
+export class ReverseGeocoder {
+  private readonly tree: RTree<{ feature: GeoJSONFeature; polygons: Polygon[] }>;
+
+  constructor(collection: GeoJSONFeatureCollection, readonly level: MapLevel) {
+    this.tree = new RTree(
+      collection.features.map((feature) => ({
+        bbox: geometryBBox(feature.geometry),
+        value: { feature, polygons: polygonsOf(feature.geometry) },
+      }))
+    );
+  }
+
+  featureAt(lat: number, lng: number): GeoJSONFeature | null {
+    const point = [lng, lat];
+    const hit = this.tree
+      .search(lng, lat)
+      .find(({ polygons }) => polygons.some((polygon) => pointInPolygon(point, polygon)));
+    return hit?.feature || null;
+  }
+
+  lookup(lat: number, lng: number): AdminHierarchy | null {
+    const feature = this.featureAt(lat, lng);
+    return feature ? hierarchyOf(feature.properties, this.level) : null;
+  }
+}
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// "13.7563, 100.5018" or "13.7563 100.5018" → [lat, lng]; longitude first is
+// accepted when the first number cannot be a latitude ("100.5018, 13.7563")
+export const parseLatLng = (input: string): [number, number] | null => {
+  const match = input.match(COORDINATE_PATTERN);
+  if (!match) return null;
+  const first = Number(match[1]);
+  const second = Number(match[2]);
+  if (Math.abs(first) > 90 && Math.abs(second) <= 90) return [second, first];
+  if (Math.abs(first) > 90 || Math.abs(second) > 180) return null;
+  return [first, second];
+};
@@ -0,0 +1,82 @@
+// Static R-tree over bounding boxes, bulk-loaded with Sort-Tile-Recursive:
+// items are sorted into vertical slices by x, each slice by y, and packed into
+// full nodes, level by level, so a point query only visits the few nodes
+// whose boxes contain the point.
+
+// [minX, minY, maxX, maxY]
+export type BBox = [number, number, number, number];
+
+interface RTreeNode<T> {
+  bbox: BBox;
+  children: RTreeNode<T>[];
+  value?: T;
+}
+
+const NODE_SIZE = 16;
+
+const unionBBox = (nodes: { bbox: BBox }[]): BBox =>
+  nodes.reduce<BBox>(
+    (box, { bbox }) => [
+      Math.min(box[0], bbox[0]),
+      Math.min(box[1], bbox[1]),
+      Math.max(box[2], bbox[2]),
+      Math.max(box[3], bbox[3]),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+
+const centerX = ({ bbox }: { bbox: BBox }) => bbox[0] + bbox[2];
+const centerY = ({ bbox }: { bbox: BBox }) => bbox[1] + bbox[3];
+
+// One level up: pack the nodes into parents of NODE_SIZE children
+const packLevel = <T>(nodes: RTreeNode<T>[]): RTreeNode<T>[] => {
+  const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(parentCount)) * NODE_SIZE;
+  const sorted = [...nodes].sort((a, b) => centerX(a) - centerX(b));
+
+  const parents: RTreeNode<T>[] = [];
+  for (let i = 0; i < sorted.length; i += sliceSize) {
+    const slice = sorted.slice(i, i + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+    for (let j = 0; j < slice.length; j += NODE_SIZE) {
+      const children = slice.slice(j, j + NODE_SIZE);
+      parents.push({ bbox: unionBBox(children), children });
+    }
+  }
+  return parents;
+};
+
+export class RTree<T> {
+  private readonly root: RTreeNode<T> | null;
+
+  constructor(items: { bbox: BBox; value: T }[]) {
+    let nodes: RTreeNode<T>[] = items.map(({ bbox, value }) => ({ bbox, children: [], value }));
+    if (nodes.length === 0) {
+      this.root = null;
+      return;
+    }
+    while (nodes.length > 1) nodes = packLevel(nodes);
+    // A single item still gets a parent so that the root is never a leaf
+    this.root = nodes[0].children.length > 0 ? nodes[0] : { bbox: nodes[0].bbox, children: nodes };
+  }
+
+  // Values whose boxes contain the point
+  search(x: number, y: number): T[] {
+    return this.searchBox([x, y, x, y]);
+  }
+
+  // Values whose boxes intersect the box
+  searchBox([minX, minY, maxX, maxY]: BBox): T[] {
+    const found: T[] = [];
+    const stack = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      node.children.forEach((child) => {
+        const [childMinX, childMinY, childMaxX, childMaxY] = child.bbox;
+        if (childMinX > maxX || childMaxX < minX || childMinY > maxY || childMaxY < minY) return;
+        if (child.children.length > 0) stack.push(child);
+        else found.push(child.value as T);
+      });
+    }
+    return found;
+  }
+}
@@ -0,0 +1,167 @@
+// Ranked, typo-tolerant name search. Names and queries are reduced to keys
+// that ignore the differences people get wrong: Thai tone marks, ใ/ไ and
+// long/short vowels; for romanized names the RTGS vs. legacy spellings
+// (Chiang/Chieng, Mueang/Muang, Phetchaburi/Petchaburi, Nakhon/Nakorn).
+// Keys are compared by exact match, then prefix (for autocomplete), then
+// substring, then a bounded edit distance against the start of the key.
+import { canonicalAdminName } from "./admin-names";
+
+export interface SearchEntry<T> {
+  value: T;
+  names: string[];
+  // Lower ranks come first among equally good matches (e.g. provinces before districts)
+  rank: number;
+}
+
+export interface SearchMatch<T> {
+  value: T;
+  // 0 exact, 1 prefix, 2 substring, 3 + edits for fuzzy matches
+  score: number;
+  name: string;
+}
+
+const THAI_PATTERN = /[\u0E00-\u0E7F]/;
+// Mai taikhu, tone marks, thanthakhat, nikhahit, yamakkan and phinthu
+const THAI_MARKS_PATTERN = /[\u0E47-\u0E4E\u0E3A]/g;
+// ใ → ไ, then long vowels (ี ื ู) to short ones (ิ ึ ุ)
+const THAI_FOLDS: [RegExp, string][] = [
+  [/\u0E43/g, "\u0E44"],
+  [/\u0E35/g, "\u0E34"],
+  [/\u0E37/g, "\u0E36"],
+  [/\u0E39/g, "\u0E38"],
+];
+
+// "Nakorn" and "Nakhorn" for นคร; only at the end of a word, so "Korat" keeps its r
+const ROMAN_WORD_FOLDS: [RegExp, string][] = [[/orn\b/g, "on"]];
+
+// Applied in order to lower-case ASCII letters and digits
+const ROMAN_FOLDS: [RegExp, string][] = [
+  [/tch/g, "ch"],
+  [/ph/g, "p"],
+  [/th/g, "t"],
+  [/kh/g, "k"],
+  [/j/g, "ch"],
+  [/ch/g, "c"],
+  [/uea|eua/g, "ua"],
+  [/ue|eu/g, "u"],
+  [/ie/g, "ia"],
+  [/oo/g, "u"],
+  [/ee/g, "i"],
+  [/v/g, "w"],
+  [/([a-z])\1+/g, "$1"],
+];
+
+export const isThaiText = (text: string): boolean => THAI_PATTERN.test(text);
+
+export const foldThai = (text: string): string =>
+  THAI_FOLDS.reduce(
+    (folded, [pattern, replacement]) => folded.replace(pattern, replacement),
+    text.toLowerCase().replace(THAI_MARKS_PATTERN, "").replace(/[\s.\-,'()]/g, "")
+  );
+
+const applyFolds = (text: string, folds: [RegExp, string][]): string =>
+  folds.reduce((folded, [pattern, replacement]) => folded.replace(pattern, replacement), text);
+
+export const foldRoman = (text: string): string => {
+  const words = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036F]/g, "")
+    .toLowerCase();
+  return applyFolds(applyFolds(words, ROMAN_WORD_FOLDS).replace(/[^a-z0-9]/g, ""), ROMAN_FOLDS);
+};
+
+// Unit words ("อ.", "Amphoe") are dropped before folding
+export const searchKey = (text: string): string => {
+  const name = canonicalAdminName(text);
+  return isThaiText(name) ? foldThai(name) : foldRoman(name);
+};
+
+// Edit distance between the query and the closest prefix of the key, or
+// Infinity once it exceeds maxEdits
+export const prefixEditDistance = (query: string, key: string, maxEdits: number): number => {
+  const columns = Math.min(key.length, query.length + maxEdits);
+  let previous = Array.from({ length: columns + 1 }, (_, j) => j);
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= columns; j++) {
+      const cost = query[i - 1] === key[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxEdits) return Infinity;
+    previous = current;
+  }
+  const best = Math.min(...previous);
+  return best <= maxEdits ? best : Infinity;
+};
+
+// Short queries must match exactly; longer ones may have one or two typos
+const allowedEdits = (query: string): number => (query.length < 4 ? 0 : query.length < 7 ? 1 : 2);
+
+// How well a query key matches a name key (see SearchMatch.score); Infinity for no match
+export const matchScore = (query: string, key: string, maxEdits = allowedEdits(query)): number => {
+  if (key === query) return 0;
+  if (key.startsWith(query)) return 1;
+  if (key.includes(query)) return 2;
+  return maxEdits > 0 ? 3 + prefixEditDistance(query, key, maxEdits) : Infinity;
+};
+
+interface IndexedName {
+  key: string;
+  name: string;
+}
+
+export class SearchIndex<T> {
+  private readonly entries: { entry: SearchEntry<T>; names: IndexedName[] }[] = [];
+
+  add(entry: SearchEntry<T>): void {
+    const names = entry.names
+      .filter(Boolean)
+      .map((name) => ({ key: searchKey(name), name }))
+      .filter((item) => item.key !== "");
+    if (names.length > 0) this.entries.push({ entry, names });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  // Best match of each entry, best first
+  search(query: string, limit = 20): SearchMatch<T>[] {
+    const key = searchKey(query.trim());
+    if (!key) return [];
+    const maxEdits = allowedEdits(key);
+
+    const matches: (SearchMatch<T> & { rank: number; keyLength: number })[] = [];
+    this.entries.forEach(({ entry, names }) => {
+      let best: { score: number; item: IndexedName } | null = null;
+      for (const item of names) {
+        const score = matchScore(key, item.key, maxEdits);
+        if (score !== Infinity && (!best || score < best.score)) best = { score, item };
+        if (score === 0) break;
+      }
+      if (best) {
+        matches.push({
+          value: entry.value,
+          score: best.score,
+          name: best.item.name,
+          rank: entry.rank,
+          keyLength: best.item.key.length,
+        });
+      }
+    });
+
+    return matches
+      .sort(
+        (a, b) =>
+          a.score - b.score ||
+          a.rank - b.rank ||
+          a.keyLength - b.keyLength ||
+          a.name.localeCompare(b.name, "th")
+      )
+      .slice(0, limit)
+      .map(({ value, score, name }) => ({ value, score, name }));
+  }
+}
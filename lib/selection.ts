@@ -0,0 +1,78 @@
+// Box and lasso selection: which areas a shape drawn on the map picks.
+// Shapes and areas are both [lng, lat] rings; at the size of a drawn shape,
+// treating degrees as planar coordinates is accurate enough.
+import { Polygon, Ring, pointInRing, polygonsOf, signedArea } from "./geometry";
+import { GeoJSONGeometry } from "./types";
+
+// intersect: any overlap picks the area; centroid: its center must lie inside
+export type SelectionMode = "intersect" | "centroid";
+
+export const SELECTION_MODES: { value: SelectionMode; label: string }[] = [
+  { value: "intersect", label: "แตะพื้นที่" },
+  { value: "centroid", label: "จุดกึ่งกลางอยู่ในกรอบ" },
+];
+
+const cross = (origin: number[], a: number[], b: number[]): number =>
+  (a[0] - origin[0]) * (b[1] - origin[1]) - (a[1] - origin[1]) * (b[0] - origin[0]);
+
+// Proper crossing of segments ab and cd; touching endpoints are caught by the vertex tests
+const segmentsCross = (a: number[], b: number[], c: number[], d: number[]): boolean =>
+  cross(c, d, a) > 0 !== cross(c, d, b) > 0 && cross(a, b, c) > 0 !== cross(a, b, d) > 0;
+
+const ringsCross = (first: Ring, second: Ring): boolean => {
+  for (let i = 1; i < first.length; i++) {
+    for (let j = 1; j < second.length; j++) {
+      if (segmentsCross(first[i - 1], first[i], second[j - 1], second[j])) return true;
+    }
+  }
+  return false;
+};
+
+// Closed ring from the points of a drawn shape
+export const closeRing = (points: number[][]): Ring => {
+  if (points.length === 0) return [];
+  const [first] = points;
+  const last = points[points.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? points : [...points, first];
+};
+
+// Area-weighted centroid of a ring; the vertex average for degenerate rings
+export const ringCentroid = (ring: Ring): number[] => {
+  const area = signedArea(ring);
+  if (Math.abs(area) < 1e-12) {
+    const sum = ring.reduce((acc, point) => [acc[0] + point[0], acc[1] + point[1]], [0, 0]);
+    return [sum[0] / ring.length, sum[1] / ring.length];
+  }
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const factor = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    x += (ring[j][0] + ring[i][0]) * factor;
+    y += (ring[j][1] + ring[i][1]) * factor;
+  }
+  return [x / (6 * area), y / (6 * area)];
+};
+
+// Centroid of the largest polygon, so offshore islands do not pull it into the sea
+export const geometryCentroid = (geometry: GeoJSONGeometry): number[] | null => {
+  const outers = polygonsOf(geometry).map(([outer]) => outer).filter((ring) => ring && ring.length > 0);
+  if (outers.length === 0) return null;
+  const largest = outers.reduce((best, ring) => (Math.abs(signedArea(ring)) > Math.abs(signedArea(best)) ? ring : best));
+  return ringCentroid(largest);
+};
+
+const polygonIntersects = ([outer, ...holes]: Polygon, shape: Ring): boolean => {
+  if (outer.some((point) => pointInRing(point, shape))) return true;
+  // The shape may lie entirely inside the area (but not inside one of its holes)
+  if (pointInRing(shape[0], outer) && !holes.some((hole) => pointInRing(shape[0], hole))) return true;
+  return ringsCross(outer, shape);
+};
+
+export const shapeSelects = (geometry: GeoJSONGeometry, shape: Ring, mode: SelectionMode): boolean => {
+  if (shape.length < 4) return false;
+  if (mode === "centroid") {
+    const centroid = geometryCentroid(geometry);
+    return centroid !== null && pointInRing(centroid, shape);
+  }
+  return polygonsOf(geometry).some((polygon) => polygonIntersects(polygon, shape));
+};
@@ -0,0 +1,248 @@
+// Shareable links: the map state is packed into the URL hash.
+//
+// Painted areas are grouped by color and runs of consecutive numeric codes
+// are written as ranges ("ff3b30:1001-1005,1010"), then the payload is
+// deflated and base64url encoded.
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import { ChoroplethSettings } from "./classification";
+import { MapConfig } from "./map-config";
+import { MapView, THAILAND_CONFIG } from "./types";
+
+// Decoded choropleth and legend settings are unchecked; they reach the map
+// only through validateMapConfig
+export interface ShareState {
+  currentLevel: string;
+  areaColors: [string, string][];
+  selectedProvinces: string[];
+  selectedDistricts: string[];
+  selectedRegions: string[];
+  lockedAreas: string[];
+  borderColor: string;
+  showAreaNames: boolean;
+  areaValues: [string, number][];
+  choropleth?: ChoroplethSettings;
+  legend?: MapConfig["legend"];
+  palette?: string[];
+  view?: MapView;
+}
+
+interface SharePayload {
+  v: 1;
+  l: string;
+  c: string;
+  p?: string;
+  d?: string;
+  r?: string;
+  k?: string;
+  b: string;
+  n: 0 | 1;
+  a?: [string, number][];
+  h?: ChoroplethSettings;
+  g?: MapConfig["legend"];
+  q?: string;
+  m?: [number, number, number];
+}
+
+export const SHARE_HASH_KEY = "s";
+// Links longer than this may be cut off by chat apps and email clients
+export const SHARE_URL_WARN_LENGTH = 2000;
+// Beyond this some browsers refuse to open the link at all
+export const SHARE_URL_MAX_LENGTH = 32000;
+
+// Longer than the largest level (about 7,400 subdistricts) only comes from a crafted link
+const MAX_CODE_RANGE = 10000;
+
+const isNumericCode = (code: string): boolean => /^\d+$/.test(code);
+
+// Sort codes and collapse runs of consecutive numeric codes of equal width
+export const encodeCodeList = (codes: string[]): string => {
+  const numeric = codes.filter(isNumericCode).sort((a, b) =>
+    a.length !== b.length ? a.length - b.length : Number(a) - Number(b)
+  );
+  const other = codes.filter((code) => !isNumericCode(code)).sort();
+  const tokens: string[] = [];
+
+  let i = 0;
+  while (i < numeric.length) {
+    let j = i;
+    while (
+      j + 1 < numeric.length &&
+      numeric[j + 1].length === numeric[i].length &&
+      Number(numeric[j + 1]) === Number(numeric[j]) + 1
+    ) {
+      j++;
+    }
+    tokens.push(j > i ? `${numeric[i]}-${numeric[j]}` : numeric[i]);
+    i = j + 1;
+  }
+
+  other.forEach((code) => tokens.push(encodeURIComponent(code)));
+  return tokens.join(",");
+};
+
+// Throws on ranges longer than any level
+export const decodeCodeList = (encoded: string): string[] => {
+  if (!encoded) return [];
+  const codes: string[] = [];
+
+  encoded.split(",").forEach((token) => {
+    const range = token.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const width = range[1].length;
+      const first = Number(range[1]);
+      const last = Number(range[2]);
+      if (last - first >= MAX_CODE_RANGE) throw new Error(`Code range too long: ${token}`);
+      for (let n = first; n <= last; n++) {
+        codes.push(String(n).padStart(width, "0"));
+      }
+    } else if (token) {
+      codes.push(decodeURIComponent(token));
+    }
+  });
+
+  return codes;
+};
+
+const encodeColor = (color: string): string =>
+  color.startsWith("#") ? color.slice(1).toLowerCase() : encodeURIComponent(color);
+
+const decodeColor = (encoded: string): string =>
+  /^[0-9a-f]{3,8}$/.test(encoded) ? `#${encoded}` : decodeURIComponent(encoded);
+
+const encodeAreaColors = (areaColors: [string, string][]): string => {
+  const groups = new Map<string, string[]>();
+  areaColors.forEach(([code, color]) => {
+    const key = encodeColor(color);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(code);
+  });
+
+  return Array.from(groups.entries())
+    .map(([color, codes]) => `${color}:${encodeCodeList(codes)}`)
+    .join(";");
+};
+
+const decodeAreaColors = (encoded: string): [string, string][] => {
+  const result: [string, string][] = [];
+  if (!encoded) return result;
+
+  encoded.split(";").forEach((group) => {
+    const separator = group.indexOf(":");
+    if (separator === -1) return;
+    const color = decodeColor(group.slice(0, separator));
+    decodeCodeList(group.slice(separator + 1)).forEach((code) => {
+      result.push([code, color]);
+    });
+  });
+
+  return result;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const encodeShareState = (state: ShareState): string => {
+  const payload: SharePayload = {
+    v: 1,
+    l: state.currentLevel,
+    c: encodeAreaColors(state.areaColors),
+    b: encodeColor(state.borderColor),
+    n: state.showAreaNames ? 1 : 0,
+  };
+  if (state.selectedProvinces.length > 0) payload.p = encodeCodeList(state.selectedProvinces);
+  if (state.selectedDistricts.length > 0) payload.d = encodeCodeList(state.selectedDistricts);
+  if (state.selectedRegions.length > 0) payload.r = encodeCodeList(state.selectedRegions);
+  if (state.lockedAreas.length > 0) payload.k = encodeCodeList(state.lockedAreas);
+  if (state.areaValues.length > 0) payload.a = state.areaValues;
+  if (state.choropleth) payload.h = state.choropleth;
+  if (state.legend) payload.g = state.legend;
+  if (state.palette) payload.q = state.palette.map(encodeColor).join(",");
+  if (state.view) {
+    payload.m = [
+      Number(state.view.center[0].toFixed(5)),
+      Number(state.view.center[1].toFixed(5)),
+      state.view.zoom,
+    ];
+  }
+
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }));
+};
+
+// [lat, lng, zoom] of a payload, or undefined when any part is missing or out of range
+const decodeView = (view: unknown): MapView | undefined => {
+  if (!Array.isArray(view) || view.length !== 3) return undefined;
+  if (!view.every((value) => typeof value === "number" && Number.isFinite(value))) return undefined;
+  const [lat, lng, zoom] = view as number[];
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  if (zoom < THAILAND_CONFIG.minZoom || zoom > THAILAND_CONFIG.maxZoom) return undefined;
+  return { center: [lat, lng], zoom };
+};
+
+const decodeAreaValues = (values: unknown): [string, number][] =>
+  Array.isArray(values)
+    ? values.filter(
+        (item): item is [string, number] =>
+          Array.isArray(item) && typeof item[0] === "string" && typeof item[1] === "number" && Number.isFinite(item[1])
+      )
+    : [];
+
+const decodePalette = (encoded: unknown): string[] | undefined => {
+  if (typeof encoded !== "string" || !encoded) return undefined;
+  return encoded.split(",").filter(Boolean).map(decodeColor);
+};
+
+// Throws when the string is not a valid share payload
+export const decodeShareState = (encoded: string): ShareState => {
+  const payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded)))) as SharePayload;
+  if (payload.v !== 1 || typeof payload.l !== "string") {
+    throw new Error("Unsupported share link version");
+  }
+
+  return {
+    currentLevel: payload.l,
+    areaColors: decodeAreaColors(payload.c || ""),
+    selectedProvinces: decodeCodeList(payload.p || ""),
+    selectedDistricts: decodeCodeList(payload.d || ""),
+    selectedRegions: decodeCodeList(payload.r || ""),
+    lockedAreas: decodeCodeList(payload.k || ""),
+    borderColor: decodeColor(payload.b || "000000"),
+    showAreaNames: payload.n !== 0,
+    areaValues: decodeAreaValues(payload.a),
+    choropleth: payload.h,
+    legend: payload.g,
+    palette: decodePalette(payload.q),
+    view: decodeView(payload.m),
+  };
+};
+
+export const buildShareURL = (state: ShareState): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${SHARE_HASH_KEY}=${encodeShareState(state)}`;
+};
+
+// The encoded state from the current URL, if any
+export const getShareHash = (): string | null => {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get(SHARE_HASH_KEY);
+};
+
+export const clearShareHash = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", `${pathname}${search}`);
+};
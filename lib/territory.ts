@@ -0,0 +1,205 @@
+// Territories: all painted features that share a color, dissolved into one
+// outline. Neighboring areas in the boundary data share their border
+// vertices, so a border between two members shows up as the same edge walked
+// in opposite directions; dropping those pairs and stitching the remaining
+// edges back into rings gives the merged outline.
+import {
+  ColoredAreaFeature,
+  GISField,
+  GISLayer,
+  StyledProperties,
+} from "./gis-export";
+import { Polygon, Ring, distanceKm, pointInRing, polygonsOf, signedArea } from "./geometry";
+import { GeoJSONFeature, GeoJSONGeometry } from "./types";
+
+export interface Territory {
+  color: string;
+  label: string;
+  memberCodes: string[];
+  areaSqKm: number;
+  perimeterKm: number;
+  // MultiPolygon with counter-clockwise outer rings
+  geometry: GeoJSONGeometry;
+}
+
+export interface TerritoryProperties extends StyledProperties {
+  name: string;
+  members: number;
+  area_sqkm: number;
+  perim_km: number;
+  codes: string;
+}
+
+const EARTH_RADIUS_M = 6378137;
+// Where neighbors do not share every vertex, the mismatch leaves thin rings
+// along interior borders. Rings this small and this thin are dropped.
+const SLIVER_MAX_AREA = 1e-4; // square degrees, about 1.2 km²
+const SLIVER_MAX_COMPACTNESS = 0.01; // 4πA/P², 1 for a circle
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const pointKey = (point: number[]) => `${point[0]},${point[1]}`;
+
+// Spherical excess approximation (as used by turf), in square meters
+const ringAreaM2 = (ring: Ring): number => {
+  const count = ring.length;
+  if (count < 4) return 0;
+  let total = 0;
+  for (let i = 0; i < count - 1; i++) {
+    const lower = ring[i];
+    const middle = ring[(i + 1) % (count - 1)];
+    const upper = ring[(i + 2) % (count - 1)];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+const ringLengthKm = (ring: Ring): number => {
+  let total = 0;
+  for (let i = 1; i < ring.length; i++) {
+    total += distanceKm(ring[i - 1], ring[i]);
+  }
+  return total;
+};
+
+const isSliver = (ring: Ring): boolean => {
+  const area = Math.abs(signedArea(ring));
+  if (area >= SLIVER_MAX_AREA) return false;
+  let perimeter = 0;
+  for (let i = 1; i < ring.length; i++) {
+    perimeter += Math.hypot(ring[i][0] - ring[i - 1][0], ring[i][1] - ring[i - 1][1]);
+  }
+  return perimeter === 0 || (4 * Math.PI * area) / (perimeter * perimeter) < SLIVER_MAX_COMPACTNESS;
+};
+
+// Outer rings counter-clockwise, holes clockwise, so shared borders run in opposite directions
+const orientedRings = (polygon: Polygon): Ring[] =>
+  polygon.map((ring, index) => {
+    const counterClockwise = signedArea(ring) > 0;
+    return (index === 0) === counterClockwise ? ring : [...ring].reverse();
+  });
+
+export const dissolvePolygons = (polygons: Polygon[]): Polygon[] => {
+  // Directed boundary edges by "from>to"; an edge meeting its reverse is interior
+  const edges = new Map<string, [number[], number[]]>();
+  polygons.forEach((polygon) =>
+    orientedRings(polygon).forEach((ring) => {
+      for (let i = 1; i < ring.length; i++) {
+        const from = pointKey(ring[i - 1]);
+        const to = pointKey(ring[i]);
+        if (from === to) continue;
+        const reverse = `${to}>${from}`;
+        if (edges.has(reverse)) {
+          edges.delete(reverse);
+        } else {
+          edges.set(`${from}>${to}`, [ring[i - 1], ring[i]]);
+        }
+      }
+    })
+  );
+
+  const outgoing = new Map<string, [number[], number[]][]>();
+  edges.forEach((edge) => {
+    const key = pointKey(edge[0]);
+    const list = outgoing.get(key);
+    if (list) list.push(edge);
+    else outgoing.set(key, [edge]);
+  });
+
+  // Walk the remaining edges into closed rings
+  const rings: Ring[] = [];
+  outgoing.forEach((list) => {
+    while (list.length > 0) {
+      const [start, next] = list.pop()!;
+      const ring: Ring = [start];
+      const startKey = pointKey(start);
+      let current = next;
+      while (pointKey(current) !== startKey) {
+        ring.push(current);
+        const candidates = outgoing.get(pointKey(current));
+        if (!candidates || candidates.length === 0) break; // open chain in unclean data
+        current = candidates.pop()![1];
+      }
+      ring.push(start);
+      if (ring.length >= 4 && !isSliver(ring)) rings.push(ring);
+    }
+  });
+
+  // Counter-clockwise rings are outlines, clockwise ones are holes in the smallest outline around them
+  const outers = rings
+    .filter((ring) => signedArea(ring) > 0)
+    .map((ring) => ({ ring, area: signedArea(ring), holes: [] as Ring[] }));
+  rings
+    .filter((ring) => signedArea(ring) < 0)
+    .forEach((hole) => {
+      const owner = outers
+        .filter((outer) => pointInRing(hole[0], outer.ring))
+        .sort((a, b) => a.area - b.area)[0];
+      owner?.holes.push(hole);
+    });
+
+  return outers.map(({ ring, holes }) => [ring, ...holes]);
+};
+
+const polygonsAreaSqKm = (polygons: Polygon[]): number =>
+  polygons.reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringAreaM2(outer) - holes.reduce((holeSum, hole) => holeSum + ringAreaM2(hole), 0),
+    0
+  ) / 1e6;
+
+const polygonsPerimeterKm = (polygons: Polygon[]): number =>
+  polygons.reduce((sum, polygon) => sum + polygon.reduce((ringSum, ring) => ringSum + ringLengthKm(ring), 0), 0);
+
+// One territory per color, largest first
+export const buildTerritories = (features: ColoredAreaFeature[]): Territory[] => {
+  const groups = new Map<string, ColoredAreaFeature[]>();
+  features.forEach((feature) => {
+    const key = feature.properties.color.trim().toLowerCase();
+    const group = groups.get(key);
+    if (group) group.push(feature);
+    else groups.set(key, [feature]);
+  });
+
+  return Array.from(groups.values())
+    .map((members) => {
+      const polygons = dissolvePolygons(members.flatMap((member) => polygonsOf(member.geometry)));
+      return {
+        color: members[0].properties.color,
+        label: members[0].properties.label,
+        memberCodes: members.map((member) => member.properties.code),
+        areaSqKm: polygonsAreaSqKm(polygons),
+        perimeterKm: polygonsPerimeterKm(polygons),
+        geometry: { type: "MultiPolygon" as const, coordinates: polygons },
+      };
+    })
+    .sort((a, b) => b.areaSqKm - a.areaSqKm);
+};
+
+const TERRITORY_FIELDS: GISField<TerritoryProperties>[] = [
+  { name: "name", type: "C", length: 120 },
+  { name: "color", type: "C", length: 32 },
+  { name: "label", type: "C", length: 254 },
+  { name: "members", type: "N", length: 10 },
+  { name: "area_sqkm", type: "N", length: 20, decimals: 3 },
+  { name: "perim_km", type: "N", length: 20, decimals: 3 },
+  { name: "codes", type: "C", length: 254 },
+];
+
+export const territoryLayer = (territories: Territory[]): GISLayer<TerritoryProperties> => ({
+  features: territories.map((territory): GeoJSONFeature<TerritoryProperties> => ({
+    type: "Feature",
+    geometry: territory.geometry,
+    properties: {
+      name: territory.label || territory.color,
+      color: territory.color,
+      label: territory.label,
+      members: territory.memberCodes.length,
+      area_sqkm: Math.round(territory.areaSqKm * 1000) / 1000,
+      perim_km: Math.round(territory.perimeterKm * 1000) / 1000,
+      codes: territory.memberCodes.join(","),
+    },
+  })),
+  fields: TERRITORY_FIELDS,
+  nameField: "name",
+});
@@ -122,6 +122,11 @@ export interface MapBounds {
   west: number;
 }
 
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
 export interface TooltipData {
   name_th: string;
   name_en: string;
@@ -187,6 +192,6 @@ export const ADMIN_LEVELS: { value: AdminLevel; label: string }[] = [
   { value: "provinces", label: "Provinces (77 จังหวัด)" },
   { value: "districts", label: "Districts (928 อำเภอ)" },
   { value: "subdistricts", label: "Subdistricts (7,367 ตำบล)" },
-  { value: "region_royin", label: "Regions ROYIN (7 ภูมิภาค)" },
-  { value: "region_nesdb", label: "Regions NESDB (6 ภูมิภาค)" },
+  { value: "region_royin", label: "Regions ROYIN (6 ภูมิภาค)" },
+  { value: "region_nesdb", label: "Regions NESDB (7 ภูมิภาค)" },
 ];
@@ -0,0 +1,355 @@
+// Minimal XLSX (Office Open XML spreadsheet) reading and writing on top of
+// fflate: text and number cells, bold headers and solid cell fills, which is
+// all the area tables need.
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+export type XLSXValue = string | number | null;
+
+export interface XLSXCell {
+  value: XLSXValue;
+  // Hex color (#rrggbb) used as a solid background
+  fill?: string;
+  bold?: boolean;
+}
+
+export interface XLSXSheet {
+  name: string;
+  rows: (XLSXValue | XLSXCell)[][];
+  columnWidths?: number[];
+  // Keep the first row visible while scrolling
+  freezeHeader?: boolean;
+}
+
+// A sheet read back as text cells, the same shape parseCSV returns
+export interface XLSXTable {
+  name: string;
+  rows: string[][];
+}
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const escapeXML = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const unescapeXML = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? entity;
+  });
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (column: number): string => {
+  let name = "";
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || "";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Sheet names are limited to 31 characters without []:*?/\ and must be unique
+const sheetNames = (sheets: XLSXSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const toCell = (cell: XLSXValue | XLSXCell): XLSXCell =>
+  cell !== null && typeof cell === "object" ? cell : { value: cell };
+
+// Text stays readable on dark fills
+const isDarkColor = (hex: string): boolean => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 140;
+};
+
+const normalizeFill = (fill: string | undefined): string | undefined => {
+  if (!fill) return undefined;
+  let hex = fill.trim().toLowerCase();
+  if (/^#[0-9a-f]{3}$/.test(hex)) hex = `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}`;
+  return /^#[0-9a-f]{6}$/.test(hex) ? hex : undefined;
+};
+
+// Cell formats are shared: one xf per distinct fill/bold combination
+class StyleTable {
+  private readonly keys = new Map<string, number>();
+  private readonly formats: { fill?: string; bold: boolean }[] = [];
+
+  styleOf(cell: XLSXCell): number {
+    const fill = normalizeFill(cell.fill);
+    const bold = Boolean(cell.bold);
+    if (!fill && !bold) return 0;
+    const key = `${fill || ""}|${bold ? 1 : 0}`;
+    let id = this.keys.get(key);
+    if (id === undefined) {
+      this.formats.push({ fill, bold });
+      id = this.formats.length;
+      this.keys.set(key, id);
+    }
+    return id;
+  }
+
+  toXML(): string {
+    // Fonts: regular, bold, white, white bold
+    const fonts = [false, true, false, true].map((bold, index) =>
+      `<font>${bold ? "<b/>" : ""}<sz val="11"/>${index >= 2 ? '<color rgb="FFFFFFFF"/>' : ""}<name val="Tahoma"/></font>`
+    );
+    // The first two fills are reserved by Excel
+    const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+    const fillIds = new Map<string, number>();
+    const xfs = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+
+    this.formats.forEach(({ fill, bold }) => {
+      let fillId = 0;
+      if (fill) {
+        fillId = fillIds.get(fill) ?? fills.length;
+        if (!fillIds.has(fill)) {
+          fillIds.set(fill, fillId);
+          const argb = `FF${fill.slice(1).toUpperCase()}`;
+          fills.push(`<fill><patternFill patternType="solid"><fgColor rgb="${argb}"/><bgColor indexed="64"/></patternFill></fill>`);
+        }
+      }
+      const fontId = (fill && isDarkColor(fill) ? 2 : 0) + (bold ? 1 : 0);
+      xfs.push(
+        `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"` +
+        `${fontId ? ' applyFont="1"' : ""}${fillId ? ' applyFill="1"' : ""}/>`
+      );
+    });
+
+    return (
+      XML_HEADER +
+      `<styleSheet xmlns="${MAIN_NS}">` +
+      `<fonts count="${fonts.length}">${fonts.join("")}</fonts>` +
+      `<fills count="${fills.length}">${fills.join("")}</fills>` +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      "</styleSheet>"
+    );
+  }
+}
+
+const sheetXML = (sheet: XLSXSheet, styles: StyleTable): string => {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((raw, column) => {
+      const cell = toCell(raw);
+      const style = styles.styleOf(cell);
+      const reference = `${columnName(column)}${rowIndex + 1}`;
+      const styleAttribute = style ? ` s="${style}"` : "";
+      if (typeof cell.value === "number" && Number.isFinite(cell.value)) {
+        return `<c r="${reference}"${styleAttribute}><v>${cell.value}</v></c>`;
+      }
+      if (cell.value === null || cell.value === "" || typeof cell.value === "number") {
+        return style ? `<c r="${reference}"${styleAttribute}/>` : "";
+      }
+      return (
+        `<c r="${reference}"${styleAttribute} t="inlineStr">` +
+        `<is><t xml:space="preserve">${escapeXML(cell.value)}</t></is></c>`
+      );
+    });
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  const view = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : "";
+  const columns = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths
+      .map((width, column) => `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`)
+      .join("")}</cols>`
+    : "";
+
+  return (
+    XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    view +
+    columns +
+    `<sheetData>${rows.join("")}</sheetData>` +
+    "</worksheet>"
+  );
+};
+
+export const buildXLSX = (sheets: XLSXSheet[]): Uint8Array => {
+  const styles = new StyleTable();
+  const names = sheetNames(sheets);
+  const files: Record<string, Uint8Array> = {};
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(sheetXML(sheet, styles));
+  });
+
+  files["[Content_Types].xml"] = strToU8(
+    XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets
+      .map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>"
+  );
+  files["_rels/.rels"] = strToU8(
+    XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    "</Relationships>"
+  );
+  files["xl/workbook.xml"] = strToU8(
+    XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    names.map((name, index) => `<sheet name="${escapeXML(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join("") +
+    "</sheets></workbook>"
+  );
+  files["xl/_rels/workbook.xml.rels"] = strToU8(
+    XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    sheets
+      .map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    "</Relationships>"
+  );
+  // Styles are collected while the sheets are written
+  files["xl/styles.xml"] = strToU8(styles.toXML());
+
+  return zipSync(files);
+};
+
+// Reading. Files come from Excel, LibreOffice and Google Sheets, so element
+// names may carry a namespace prefix (<x:c>) and cells may omit references.
+
+const elements = (xml: string, name: string): { attributes: Record<string, string>; body: string }[] => {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${name}>)`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: Object.fromEntries(
+      Array.from(match[1].matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g), (attribute) => [
+        attribute[1].replace(/^\w+:(?!id$)/, ""),
+        unescapeXML(attribute[2]),
+      ])
+    ),
+    body: match[2] || "",
+  }));
+};
+
+// Concatenated <t> runs, skipping phonetic hints
+const richText = (xml: string): string =>
+  elements(xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, ""), "t")
+    .map((text) => unescapeXML(text.body))
+    .join("");
+
+const resolvePath = (target: string): string =>
+  target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+
+// Solid fill color per cell style index, for cells that are colored but empty
+const readFillStyles = (xml: string | undefined): (string | undefined)[] => {
+  if (!xml) return [];
+  const fills = elements(elements(xml, "fills")[0]?.body || "", "fill").map(({ body }) => {
+    const pattern = elements(body, "patternFill")[0];
+    if (pattern?.attributes.patternType !== "solid") return undefined;
+    const rgb = elements(pattern.body, "fgColor")[0]?.attributes.rgb;
+    return rgb && /^[0-9a-f]{8}$/i.test(rgb) ? `#${rgb.slice(2).toLowerCase()}` : undefined;
+  });
+  return elements(elements(xml, "cellXfs")[0]?.body || "", "xf").map(
+    ({ attributes }) => fills[Number(attributes.fillId) || 0]
+  );
+};
+
+const readSheetRows = (xml: string, sharedStrings: string[], fillStyles: (string | undefined)[]): string[][] => {
+  const rows: string[][] = [];
+  elements(xml, "row").forEach(({ body }) => {
+    const row: string[] = [];
+    let nextColumn = 0;
+    elements(body, "c").forEach(({ attributes, body: cellBody }) => {
+      const column = attributes.r ? columnIndex(attributes.r) : nextColumn;
+      nextColumn = column + 1;
+
+      const raw = unescapeXML(elements(cellBody, "v")[0]?.body || "");
+      let text: string;
+      switch (attributes.t) {
+        case "s":
+          text = sharedStrings[Number(raw)] ?? "";
+          break;
+        case "inlineStr":
+          text = richText(elements(cellBody, "is")[0]?.body || "");
+          break;
+        case "b":
+          text = raw === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          text = raw;
+      }
+      // A painted but empty cell stands for its color
+      if (text === "" && attributes.s) text = fillStyles[Number(attributes.s)] || "";
+
+      while (row.length < column) row.push("");
+      row[column] = text;
+    });
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+  });
+  return rows;
+};
+
+export const readXLSX = (bytes: Uint8Array): XLSXTable[] => {
+  const files = unzipSync(bytes);
+  const text = (path: string) => (files[path] ? strFromU8(files[path]) : undefined);
+
+  const workbook = text("xl/workbook.xml");
+  if (!workbook) throw new Error("Not an XLSX workbook");
+
+  const targets = new Map(
+    elements(text("xl/_rels/workbook.xml.rels") || "", "Relationship").map(({ attributes }) => [
+      attributes.Id,
+      resolvePath(attributes.Target || ""),
+    ])
+  );
+  const sharedStrings = elements(text("xl/sharedStrings.xml") || "", "si").map(({ body }) => richText(body));
+  const fillStyles = readFillStyles(text("xl/styles.xml"));
+
+  return elements(workbook, "sheet").map(({ attributes }, index) => {
+    const path = targets.get(attributes["r:id"]) || `xl/worksheets/sheet${index + 1}.xml`;
+    const xml = text(path);
+    return {
+      name: attributes.name || `Sheet${index + 1}`,
+      rows: xml ? readSheetRows(xml, sharedStrings, fillStyles) : [],
+    };
+  });
+};
+
+export const isXLSXFile = (file: File): boolean => file.name.toLowerCase().endsWith(".xlsx");
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";